@@ -0,0 +1,386 @@
+/**
+ * Trend Charts
+ * Turns stored quota snapshots into inline SVG sparklines and the data and
+ * script for the interactive history chart. Everything renders locally.
+ */
+
+import { ModelConfig } from './metricsModel';
+import { QuotaSnapshot } from './historyStore';
+
+export type TrendRange = '24h' | '7d';
+
+export const TREND_RANGES: Record<TrendRange, number> = {
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+/** [epoch ms, remaining fraction 0..1] */
+export type TrendPoint = [number, number];
+
+export interface ChartSeries {
+    id: string;
+    label: string;
+    color: string;
+    points: TrendPoint[];
+}
+
+export type CreditKind = 'prompt' | 'flow';
+
+/** Enough resolution for a 600px wide chart */
+const MAX_POINTS = 240;
+
+const SERIES_COLORS = [
+    '#58a6ff', '#a371f7', '#3fb950', '#f0883e', '#39d5ff',
+    '#db61a2', '#d29922', '#8b949e', '#f85149', '#56d364',
+];
+
+/**
+ * Keep the last point of each time bucket so long ranges stay light
+ */
+function downsample(points: TrendPoint[], since: number, until: number): TrendPoint[] {
+    if (points.length <= MAX_POINTS) {
+        return points;
+    }
+    const bucketMs = (until - since) / MAX_POINTS;
+    const buckets = new Map<number, TrendPoint>();
+    for (const point of points) {
+        buckets.set(Math.floor((point[0] - since) / bucketMs), point);
+    }
+    return [...buckets.values()];
+}
+
+export function modelTrend(snapshots: readonly QuotaSnapshot[], modelId: string, since: number, until: number = Date.now()): TrendPoint[] {
+    const points: TrendPoint[] = [];
+    for (const snapshot of snapshots) {
+        const model = snapshot.models[modelId];
+        if (model && snapshot.timestamp >= since) {
+            points.push([snapshot.timestamp, model.remainingFraction]);
+        }
+    }
+    return downsample(points, since, until);
+}
+
+/**
+ * Credits as a fraction of the monthly allowance
+ */
+export function creditTrend(
+    snapshots: readonly QuotaSnapshot[],
+    kind: CreditKind,
+    total: number,
+    since: number,
+    until: number = Date.now()
+): TrendPoint[] {
+    if (total <= 0) {
+        return [];
+    }
+    const points: TrendPoint[] = [];
+    for (const snapshot of snapshots) {
+        if (snapshot.timestamp >= since) {
+            const credits = kind === 'prompt' ? snapshot.promptCredits : snapshot.flowCredits;
+            points.push([snapshot.timestamp, Math.min(1, Math.max(0, credits / total))]);
+        }
+    }
+    return downsample(points, since, until);
+}
+
+/**
+ * A small line chart over the given range; empty until there are two points.
+ * It is drawn in currentColor, so the surrounding styles pick the color.
+ */
+export function renderSparkline(
+    points: TrendPoint[],
+    since: number,
+    until: number,
+    width: number = 80,
+    height: number = 20
+): string {
+    if (points.length < 2) {
+        return '';
+    }
+
+    const span = Math.max(1, until - since);
+    const coords = points.map(([t, v]) => {
+        const x = ((t - since) / span) * width;
+        const y = height - 1 - v * (height - 2);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+    const first = coords[0].split(',')[0];
+    const last = coords[coords.length - 1].split(',')[0];
+
+    return `<svg class="sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" aria-hidden="true">` +
+        `<polygon points="${first},${height} ${coords.join(' ')} ${last},${height}" fill="currentColor" fill-opacity="0.15"/>` +
+        `<polyline points="${coords.join(' ')}" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linejoin="round"/>` +
+        `</svg>`;
+}
+
+/**
+ * Sparklines for every range, shown one at a time by the range toggle
+ */
+export function renderRangeSparklines(
+    trends: Record<TrendRange, TrendPoint[]>,
+    width?: number,
+    height?: number
+): string {
+    const now = Date.now();
+    return (Object.keys(TREND_RANGES) as TrendRange[])
+        .map((range) => {
+            const since = now - TREND_RANGES[range];
+            const svg = renderSparkline(trends[range], since, now, width, height);
+            return svg ? `<span class="trend" data-range="${range}">${svg}</span>` : '';
+        })
+        .join('');
+}
+
+/**
+ * One series per model with quota, covering the longest range
+ */
+export function buildChartSeries(snapshots: readonly QuotaSnapshot[], models: ModelConfig[]): ChartSeries[] {
+    const until = Date.now();
+    const since = until - TREND_RANGES['7d'];
+    return models
+        .filter((m) => m.quotaInfo)
+        .map((model, i) => ({
+            id: model.modelOrAlias.model,
+            label: model.label,
+            color: SERIES_COLORS[i % SERIES_COLORS.length],
+            points: modelTrend(snapshots, model.modelOrAlias.model, since, until),
+        }))
+        .filter((series) => series.points.length > 0);
+}
+
+/**
+ * Client-side renderer for the interactive chart. Defines
+ * `updateHistoryChart(series, ranges)`, which draws into the elements with
+ * ids "history-chart", "history-legend" and "history-tooltip" when present.
+ * Hidden series and the selected range survive updates through the webview
+ * state.
+ */
+export const CHART_SCRIPT = `
+(function () {
+    const vscode = typeof acquireVsCodeApi === 'function' ? (window.vscodeApi = window.vscodeApi || acquireVsCodeApi()) : null;
+    const state = Object.assign({ range: '24h', hidden: [] }, vscode && vscode.getState());
+    let chartSeries = [];
+    let trendRanges = {};
+    const W = 600, H = 200, PAD_L = 32, PAD_B = 18, PAD_T = 8, PAD_R = 8;
+    const NS = 'http://www.w3.org/2000/svg';
+
+    function saveState() {
+        if (vscode) { vscode.setState(Object.assign({}, vscode.getState(), state)); }
+    }
+
+    function el(name, attrs) {
+        const node = document.createElementNS(NS, name);
+        Object.keys(attrs).forEach((key) => node.setAttribute(key, attrs[key]));
+        return node;
+    }
+
+    function formatTime(t) {
+        const d = new Date(t);
+        return state.range === '24h'
+            ? d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            : d.toLocaleDateString([], { month: 'short', day: 'numeric' }) + ' ' +
+              d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    }
+
+    function applyRange() {
+        document.body.dataset.range = state.range;
+        document.querySelectorAll('[data-set-range]').forEach((button) => {
+            button.classList.toggle('active', button.dataset.setRange === state.range);
+        });
+    }
+
+    function render() {
+        // The card is patched in and out of the page, so look it up each time
+        const chart = document.getElementById('history-chart');
+        const tooltip = document.getElementById('history-tooltip');
+        if (!chart || !trendRanges[state.range]) { return; }
+        const until = Date.now();
+        const since = until - trendRanges[state.range];
+        const x = (t) => PAD_L + ((t - since) / (until - since)) * (W - PAD_L - PAD_R);
+        const y = (v) => PAD_T + (1 - v) * (H - PAD_T - PAD_B);
+        const visible = chartSeries
+            .filter((s) => !state.hidden.includes(s.id))
+            .map((s) => Object.assign({}, s, { points: s.points.filter((p) => p[0] >= since) }))
+            .filter((s) => s.points.length > 0);
+
+        const svg = el('svg', { viewBox: '0 0 ' + W + ' ' + H, width: '100%', role: 'img' });
+        [0, 0.25, 0.5, 0.75, 1].forEach((v) => {
+            svg.appendChild(el('line', { x1: PAD_L, x2: W - PAD_R, y1: y(v), y2: y(v), class: 'grid' }));
+            const label = el('text', { x: PAD_L - 4, y: y(v) + 3, class: 'axis', 'text-anchor': 'end' });
+            label.textContent = Math.round(v * 100) + '%';
+            svg.appendChild(label);
+        });
+        [since, (since + until) / 2, until].forEach((t, i) => {
+            const label = el('text', { x: x(t), y: H - 4, class: 'axis', 'text-anchor': ['start', 'middle', 'end'][i] });
+            label.textContent = formatTime(t);
+            svg.appendChild(label);
+        });
+
+        visible.forEach((s) => {
+            const points = s.points.map((p) => x(p[0]).toFixed(1) + ',' + y(p[1]).toFixed(1)).join(' ');
+            svg.appendChild(el('polyline', { points: points, fill: 'none', stroke: s.color, 'stroke-width': 1.5 }));
+        });
+
+        const cursor = el('line', { y1: PAD_T, y2: H - PAD_B, class: 'cursor', visibility: 'hidden' });
+        svg.appendChild(cursor);
+
+        svg.addEventListener('mousemove', (event) => {
+            const rect = svg.getBoundingClientRect();
+            const t = since + ((event.clientX - rect.left) / rect.width * W - PAD_L) / (W - PAD_L - PAD_R) * (until - since);
+            const rows = visible.map((s) => {
+                let nearest = s.points[0];
+                s.points.forEach((p) => { if (Math.abs(p[0] - t) < Math.abs(nearest[0] - t)) { nearest = p; } });
+                return { s: s, p: nearest };
+            });
+            if (rows.length === 0) { return; }
+            const at = rows[0].p[0];
+            cursor.setAttribute('x1', x(at));
+            cursor.setAttribute('x2', x(at));
+            cursor.setAttribute('visibility', 'visible');
+
+            tooltip.replaceChildren();
+            const title = document.createElement('div');
+            title.className = 'tooltip-time';
+            title.textContent = formatTime(at);
+            tooltip.appendChild(title);
+            rows.forEach((row) => {
+                const line = document.createElement('div');
+                const swatch = document.createElement('span');
+                swatch.className = 'swatch';
+                swatch.style.background = row.s.color;
+                line.appendChild(swatch);
+                line.appendChild(document.createTextNode(row.s.label + ': ' + Math.round(row.p[1] * 100) + '%'));
+                tooltip.appendChild(line);
+            });
+            tooltip.style.display = 'block';
+            const left = event.clientX - chart.getBoundingClientRect().left + 12;
+            tooltip.style.left = Math.min(left, chart.clientWidth - tooltip.offsetWidth) + 'px';
+        });
+        svg.addEventListener('mouseleave', () => {
+            cursor.setAttribute('visibility', 'hidden');
+            tooltip.style.display = 'none';
+        });
+
+        chart.replaceChildren(svg);
+        if (visible.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'chart-empty';
+            empty.textContent = 'No history for this range yet';
+            chart.appendChild(empty);
+        }
+    }
+
+    function renderLegend() {
+        const legend = document.getElementById('history-legend');
+        if (!legend) { return; }
+        legend.replaceChildren();
+        chartSeries.forEach((s) => {
+            const label = document.createElement('label');
+            const box = document.createElement('input');
+            box.type = 'checkbox';
+            box.checked = !state.hidden.includes(s.id);
+            box.addEventListener('change', () => {
+                state.hidden = box.checked
+                    ? state.hidden.filter((id) => id !== s.id)
+                    : state.hidden.concat(s.id);
+                saveState();
+                render();
+            });
+            const swatch = document.createElement('span');
+            swatch.className = 'swatch';
+            swatch.style.background = s.color;
+            label.appendChild(box);
+            label.appendChild(swatch);
+            label.appendChild(document.createTextNode(s.label));
+            legend.appendChild(label);
+        });
+    }
+
+    document.addEventListener('click', (event) => {
+        const button = event.target.closest('[data-set-range]');
+        if (!button) { return; }
+        state.range = button.dataset.setRange;
+        saveState();
+        applyRange();
+        render();
+    });
+
+    window.updateHistoryChart = function (series, ranges) {
+        chartSeries = series;
+        trendRanges = ranges;
+        applyRange();
+        renderLegend();
+        render();
+    };
+    applyRange();
+})();
+`;
+
+/**
+ * Styles for sparklines, the range toggle and the interactive chart
+ */
+export const CHART_STYLES = `
+        .trend { display: none; line-height: 0; }
+        body[data-range="24h"] .trend[data-range="24h"],
+        body[data-range="7d"] .trend[data-range="7d"] { display: inline-block; }
+        .sparkline { display: block; color: var(--status-color); }
+
+        .range-toggle { display: flex; gap: 4px; }
+        .range-toggle button {
+            padding: 2px 8px;
+            background: transparent;
+            border: 1px solid var(--border-default);
+            border-radius: 10px;
+            color: var(--fg-muted);
+            font-size: 10px;
+            cursor: pointer;
+        }
+        .range-toggle button.active {
+            background: var(--bg-overlay);
+            color: var(--fg-default);
+        }
+
+        .history-chart { position: relative; }
+        .history-chart svg { display: block; }
+        .history-chart .grid { stroke: var(--border-muted); stroke-width: 1; }
+        .history-chart .axis { fill: var(--fg-subtle); font-size: 9px; }
+        .history-chart .cursor { stroke: var(--fg-subtle); stroke-dasharray: 2 2; }
+        .chart-empty {
+            position: absolute;
+            inset: 0;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            color: var(--fg-subtle);
+            font-size: 12px;
+        }
+        .history-tooltip {
+            display: none;
+            position: absolute;
+            top: 8px;
+            padding: 6px 8px;
+            background: var(--bg-base);
+            border: 1px solid var(--border-default);
+            border-radius: 6px;
+            font-size: 11px;
+            pointer-events: none;
+            white-space: nowrap;
+        }
+        .tooltip-time { color: var(--fg-subtle); margin-bottom: 2px; }
+        .history-legend {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px 14px;
+            margin-top: 10px;
+            font-size: 11px;
+            color: var(--fg-muted);
+        }
+        .history-legend label { display: flex; align-items: center; gap: 4px; cursor: pointer; }
+        .swatch {
+            display: inline-block;
+            width: 8px;
+            height: 8px;
+            border-radius: 2px;
+            margin-right: 4px;
+        }
+`;
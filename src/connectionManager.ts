@@ -0,0 +1,136 @@
+/**
+ * Connection Manager
+ * Remembers the last working language server endpoint and only re-runs
+ * discovery when that endpoint stops answering
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import { ConnectionError, CsrfTokenMissingError, HttpStatusError } from './errors';
+import { log } from './logger';
+import { discoverServer, DiscoveryOptions, ServerInfo } from './serverDiscovery';
+
+/**
+ * A user-configured endpoint that bypasses discovery entirely
+ */
+export interface EndpointOverride {
+    host: string;
+    port: number;
+    /** Used as-is when set, otherwise read from tokenFile */
+    token?: string;
+    tokenFile?: string;
+    rpcPath?: string;
+}
+
+/**
+ * Errors that mean the cached endpoint is gone or its token has rotated
+ */
+function isStaleEndpointError(error: unknown): boolean {
+    if (error instanceof ConnectionError) {
+        return true;
+    }
+    return (
+        error instanceof HttpStatusError &&
+        (error.statusCode === 401 || error.statusCode === 403)
+    );
+}
+
+/**
+ * Check that a process still exists without sending it a real signal
+ */
+function isProcessAlive(pid: string): boolean {
+    try {
+        process.kill(parseInt(pid), 0);
+        return true;
+    } catch (error) {
+        // EPERM means the process exists but belongs to someone else
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Turn an endpoint override into a ServerInfo. The token file is re-read
+ * on every call so rotated tokens are picked up.
+ */
+export async function resolveEndpointOverride(override: EndpointOverride): Promise<ServerInfo> {
+    let token = override.token ?? '';
+    if (!token && override.tokenFile) {
+        const tokenPath = override.tokenFile.replace(/^~(?=$|[\\/])/, os.homedir());
+        try {
+            token = (await fs.readFile(tokenPath, 'utf-8')).trim();
+        } catch (error) {
+            throw new CsrfTokenMissingError({
+                tokenFile: tokenPath,
+                reason: (error as Error).message,
+            });
+        }
+    }
+
+    return {
+        pid: 'manual',
+        token,
+        port: String(override.port),
+        host: override.host,
+        rpcPath: override.rpcPath,
+    };
+}
+
+export class ConnectionManager {
+    private _server: ServerInfo | null = null;
+
+    /** Workspace hints and the picker used when several servers are running */
+    public discoveryOptions: DiscoveryOptions = {};
+
+    /** When set, every request goes to this endpoint and discovery is skipped */
+    public endpointOverride: EndpointOverride | undefined;
+
+    public get currentServer(): ServerInfo | null {
+        return this._server;
+    }
+
+    /**
+     * Forget the cached endpoint so the next request runs full discovery
+     */
+    public invalidate(): void {
+        this._server = null;
+    }
+
+    /**
+     * Run a request against the cached endpoint, rediscovering once if the
+     * endpoint turns out to be stale
+     */
+    public async request<T>(
+        send: (server: ServerInfo) => Promise<T>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        if (this.endpointOverride) {
+            return send(await resolveEndpointOverride(this.endpointOverride));
+        }
+
+        if (this._server && !isProcessAlive(this._server.pid)) {
+            log.info(`Cached language server PID ${this._server.pid} has exited`);
+            this._server = null;
+        }
+
+        if (this._server) {
+            try {
+                return await send(this._server);
+            } catch (error) {
+                if (!isStaleEndpointError(error)) {
+                    throw error;
+                }
+                log.info(`Cached endpoint on port ${this._server.port} is stale (${(error as Error).message}), rediscovering`);
+                this._server = null;
+            }
+        }
+
+        const server = await this._discover(signal);
+        const result = await send(server);
+        this._server = server;
+        return result;
+    }
+
+    private async _discover(signal?: AbortSignal): Promise<ServerInfo> {
+        return discoverServer(signal, this.discoveryOptions);
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Diagnostics
+ * Runs every discovery step explicitly and produces a Markdown report that
+ * is safe to paste into bug reports (CSRF tokens are masked)
+ */
+
+import { EndpointOverride, resolveEndpointOverride } from './connectionManager';
+import { maskSecret } from './logger';
+import {
+    DiscoveryOptions,
+    extractCsrfToken,
+    extractWorkspaceId,
+    getDiscoveryProvider,
+    matchWorkspaceCandidates,
+    ProbeResult,
+    probePort,
+    ProcessCandidate,
+} from './serverDiscovery';
+
+export interface DiagnosticsOptions {
+    discovery: DiscoveryOptions;
+    override?: EndpointOverride;
+    extensionVersion: string;
+    hostVersion: string;
+}
+
+function describeProbe(probe: ProbeResult): string {
+    if (probe.status === 200) {
+        return '✅ 200 OK';
+    }
+    return probe.status !== undefined ? `HTTP ${probe.status}` : `error: ${probe.error}`;
+}
+
+function probeTable(probes: ProbeResult[]): string[] {
+    return [
+        '| Port | Result | Time |',
+        '|------|--------|------|',
+        ...probes.map((p) => `| ${p.port} | ${describeProbe(p)} | ${p.durationMs} ms |`),
+    ];
+}
+
+/**
+ * Only the executable name is reported; the full command line holds the token
+ */
+function executableName(candidate: ProcessCandidate): string {
+    const executable = candidate.commandLine.split(/\s+/)[0] ?? '';
+    return executable.split(/[\\/]/).pop() || 'unknown';
+}
+
+async function diagnoseOverride(override: EndpointOverride, lines: string[]): Promise<void> {
+    lines.push('## Manual Endpoint', '');
+    lines.push(`- Host: ${override.host}`);
+    lines.push(`- Port: ${override.port}`);
+    lines.push(`- RPC path: ${override.rpcPath ?? '(default)'}`);
+    lines.push(`- Token source: ${override.token ? 'setting' : override.tokenFile ? `file ${override.tokenFile}` : 'none'}`);
+
+    try {
+        const server = await resolveEndpointOverride(override);
+        lines.push(`- Token: ${server.token ? maskSecret(server.token) : '(empty)'}`, '');
+        lines.push(...probeTable([await probePort(server, server.token, 5000)]));
+    } catch (error) {
+        lines.push(`- ❌ ${(error as Error).message}`);
+    }
+    lines.push('');
+}
+
+async function diagnoseDiscovery(options: DiscoveryOptions, lines: string[]): Promise<void> {
+    const provider = options.provider ?? getDiscoveryProvider();
+    lines.push('## Auto-Discovery', '', `- Strategy: ${provider.name}`);
+
+    let candidates: ProcessCandidate[];
+    const started = Date.now();
+    try {
+        candidates = await provider.findProcesses();
+    } catch (error) {
+        lines.push(`- ❌ Process lookup failed: ${(error as Error).message}`, '');
+        return;
+    }
+    lines.push(`- Process lookup: ${candidates.length} candidate(s) in ${Date.now() - started} ms`);
+
+    const folders = options.workspaceFolders ?? [];
+    lines.push(`- Workspace folders: ${folders.length > 0 ? folders.join(', ') : '(none)'}`, '');
+
+    if (candidates.length === 0) {
+        lines.push('No process with `language_server` and `csrf_token` on its command line was found.', '');
+        return;
+    }
+
+    const matches = matchWorkspaceCandidates(candidates, folders);
+    lines.push(
+        '### Candidate Processes',
+        '',
+        '| PID | Executable | Workspace ID | Matches window | CSRF token |',
+        '|-----|------------|--------------|----------------|------------|',
+        ...candidates.map((c) => {
+            const token = extractCsrfToken(c.commandLine);
+            return `| ${c.pid} | ${executableName(c)} | ${extractWorkspaceId(c.commandLine) ?? '-'} | ` +
+                `${matches.includes(c) ? 'yes' : 'no'} | ${token ? maskSecret(token) : '❌ missing'} |`;
+        }),
+        ''
+    );
+
+    for (const candidate of candidates) {
+        lines.push(`### PID ${candidate.pid}`, '');
+
+        const token = extractCsrfToken(candidate.commandLine);
+        if (!token) {
+            lines.push('Skipped: no CSRF token on the command line.', '');
+            continue;
+        }
+
+        let ports: string[];
+        try {
+            ports = await provider.findListeningPorts(candidate.pid);
+        } catch (error) {
+            lines.push(`❌ Port lookup failed: ${(error as Error).message}`, '');
+            continue;
+        }
+        if (ports.length === 0) {
+            lines.push('No loopback ports in LISTEN state.', '');
+            continue;
+        }
+
+        const probes = await Promise.all(ports.map((port) => probePort({ port }, token)));
+        lines.push(...probeTable(probes), '');
+    }
+}
+
+/**
+ * Build the diagnostics report
+ */
+export async function runDiagnostics(options: DiagnosticsOptions): Promise<string> {
+    const lines: string[] = [
+        '# Antigravity Quota Diagnostics',
+        '',
+        `- Generated: ${new Date().toISOString()}`,
+        `- Platform: ${process.platform} ${process.arch}`,
+        `- Host version: ${options.hostVersion}`,
+        `- Extension version: ${options.extensionVersion}`,
+        `- Mode: ${options.override ? 'manual endpoint' : 'auto-discovery'}`,
+        '',
+    ];
+
+    if (options.override) {
+        await diagnoseOverride(options.override, lines);
+    }
+    await diagnoseDiscovery(options.discovery, lines);
+
+    return lines.join('\n');
+}
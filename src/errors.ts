@@ -0,0 +1,191 @@
+/**
+ * Error Taxonomy
+ * Every failure the extension can surface, with diagnostic details and
+ * the recovery actions offered to the user
+ */
+
+export type QuotaErrorKind =
+    | 'process-not-found'
+    | 'server-not-selected'
+    | 'csrf-token-missing'
+    | 'no-listening-ports'
+    | 'ports-rejected'
+    | 'http-error'
+    | 'connection-failed'
+    | 'timeout'
+    | 'parse-failure'
+    | 'cancelled'
+    | 'unexpected';
+
+/**
+ * A button shown next to an error; runs an extension command when clicked
+ */
+export interface ErrorAction {
+    label: string;
+    command: string;
+}
+
+export type ErrorDetails = Record<string, string | number | undefined>;
+
+export const RETRY_ACTION: ErrorAction = { label: 'Retry', command: 'antigravity-quota.refresh' };
+export const OPEN_SETTINGS_ACTION: ErrorAction = { label: 'Open Settings', command: 'antigravity-quota.openSettings' };
+export const SHOW_LOGS_ACTION: ErrorAction = { label: 'Show Logs', command: 'antigravity-quota.showLogs' };
+
+export abstract class QuotaError extends Error {
+    abstract readonly kind: QuotaErrorKind;
+    /** Short heading for the error view */
+    abstract readonly title: string;
+    /** What probably went wrong and what the user can do about it */
+    abstract readonly hint: string;
+
+    constructor(message: string, public readonly details: ErrorDetails = {}) {
+        super(message);
+        this.name = new.target.name;
+    }
+
+    get actions(): ErrorAction[] {
+        return [RETRY_ACTION, OPEN_SETTINGS_ACTION, SHOW_LOGS_ACTION];
+    }
+}
+
+export class ProcessNotFoundError extends QuotaError {
+    readonly kind = 'process-not-found';
+    readonly title = 'Language Server Not Found';
+    readonly hint =
+        'No Antigravity language server process is running. Make sure the IDE is open, ' +
+        'or configure antigravityQuota.serverPort to connect to a known endpoint.';
+
+    constructor(details: ErrorDetails = {}) {
+        super('Could not find Antigravity Language Server. Make sure the IDE is running.', details);
+    }
+}
+
+export class ServerNotSelectedError extends QuotaError {
+    readonly kind = 'server-not-selected';
+    readonly title = 'No Language Server Selected';
+    readonly hint =
+        'Several Antigravity language servers are running and none could be matched to this window. ' +
+        'Retry to choose one, or configure antigravityQuota.serverPort to connect to a known endpoint.';
+
+    constructor(details: ErrorDetails = {}) {
+        super('Several language servers are running; none was selected for this window.', details);
+    }
+}
+
+export class CsrfTokenMissingError extends QuotaError {
+    readonly kind = 'csrf-token-missing';
+    readonly title = 'CSRF Token Missing';
+    readonly hint =
+        'The language server was found but no CSRF token could be read for it. ' +
+        'Set antigravityQuota.csrfToken or antigravityQuota.csrfTokenFile.';
+
+    constructor(details: ErrorDetails = {}) {
+        super('Could not determine the language server CSRF token.', details);
+    }
+}
+
+export class NoListeningPortsError extends QuotaError {
+    readonly kind = 'no-listening-ports';
+    readonly title = 'No Listening Ports';
+    readonly hint =
+        'The language server is running but is not listening on any local port yet. ' +
+        'It may still be starting up; retry in a few seconds.';
+
+    constructor(details: ErrorDetails = {}) {
+        super('The language server is not listening on any local port.', details);
+    }
+}
+
+export class PortsRejectedError extends QuotaError {
+    readonly kind = 'ports-rejected';
+    readonly title = 'Metrics API Not Reachable';
+    readonly hint =
+        'None of the language server ports answered the metrics request. ' +
+        'The CSRF token may be stale or the API may have moved; try a manual endpoint in settings.';
+
+    constructor(details: ErrorDetails = {}) {
+        super('No language server port accepted the metrics request.', details);
+    }
+}
+
+export class HttpStatusError extends QuotaError {
+    readonly kind = 'http-error';
+    readonly title = 'Request Failed';
+
+    constructor(public readonly statusCode: number, details: ErrorDetails = {}) {
+        super(`Language server responded with HTTP ${statusCode}`, { status: statusCode, ...details });
+    }
+
+    get hint(): string {
+        if (this.statusCode === 401 || this.statusCode === 403) {
+            return 'The server rejected the CSRF token. Check the token settings or let the extension rediscover the server.';
+        }
+        if (this.statusCode === 404) {
+            return 'The RPC path was not found. Check antigravityQuota.rpcPath.';
+        }
+        return 'The language server returned an unexpected status. Retrying usually helps.';
+    }
+}
+
+export class ConnectionError extends QuotaError {
+    readonly kind = 'connection-failed';
+    readonly title = 'Connection Failed';
+    readonly hint =
+        'The connection to the language server failed. The IDE may have restarted; retrying will look for it again.';
+
+    constructor(message: string, public readonly code?: string, details: ErrorDetails = {}) {
+        super(message, { code, ...details });
+    }
+}
+
+export class RequestTimeoutError extends QuotaError {
+    readonly kind = 'timeout';
+    readonly title = 'Request Timed Out';
+    readonly hint = 'The language server did not answer in time. It may be busy; try again shortly.';
+
+    constructor(timeoutMs: number, details: ErrorDetails = {}) {
+        super('Request timed out', { timeoutMs, ...details });
+    }
+}
+
+export class ResponseParseError extends QuotaError {
+    readonly kind = 'parse-failure';
+    readonly title = 'Unexpected Response';
+    readonly hint =
+        'The language server answered with data the extension could not understand. ' +
+        'The API may have changed; please report this with the logs.';
+
+    constructor(message: string, details: ErrorDetails = {}) {
+        super(message, details);
+    }
+}
+
+export class RequestCancelledError extends QuotaError {
+    readonly kind = 'cancelled';
+    readonly title = 'Cancelled';
+    readonly hint = 'The refresh was cancelled.';
+
+    constructor() {
+        super('Request was cancelled');
+    }
+}
+
+export class UnexpectedError extends QuotaError {
+    readonly kind = 'unexpected';
+    readonly title = 'Something Went Wrong';
+    readonly hint = 'An unexpected error occurred while refreshing quotas.';
+
+    constructor(message: string, details: ErrorDetails = {}) {
+        super(message, details);
+    }
+}
+
+/**
+ * Wrap anything thrown into a QuotaError
+ */
+export function toQuotaError(error: unknown): QuotaError {
+    if (error instanceof QuotaError) {
+        return error;
+    }
+    return new UnexpectedError(error instanceof Error ? error.message : 'Unknown error occurred');
+}
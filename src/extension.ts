@@ -4,19 +4,54 @@
  */
 
 import * as vscode from 'vscode';
-import { fetchMetrics, MetricsResponse } from './metricsClient';
+import {
+    configureDiscovery,
+    configureEndpointOverride,
+    fetchMetrics,
+} from './metricsClient';
+import { MetricsResponse, parseMetricsResponse } from './metricsModel';
+import { EndpointOverride } from './connectionManager';
+import { DiscoveryOptions, extractWorkspaceId, ProcessCandidate } from './serverDiscovery';
+import { QuotaError, RequestCancelledError, toQuotaError } from './errors';
+import { initLogger, log, showLogs } from './logger';
+import { runDiagnostics } from './diagnostics';
 import { QuotaSidebarProvider } from './quotaSidebarProvider';
 import { QuotaWebviewPanel } from './quotaWebviewPanel';
+import { QuotaTreeItem, QuotaTreeProvider } from './quotaTreeProvider';
+import { PollingOptions, PollingScheduler } from './pollingScheduler';
+import { QuotaStatusBar } from './quotaStatusBar';
+import { promptModelThresholds, ThresholdNotifier } from './thresholdNotifier';
+import { ResetScheduler } from './resetScheduler';
+import { HistoryStore } from './historyStore';
+import { pickHeroModels, pinHeroModel } from './heroModels';
+import { pickModelSortMode } from './modelSort';
+import { hideModel, pickHiddenModels, toggleOnlyRecommended } from './modelFilter';
 
 let sidebarProvider: QuotaSidebarProvider;
-let webviewPanel: QuotaWebviewPanel | undefined;
+let treeProvider: QuotaTreeProvider;
+let treeView: vscode.TreeView<QuotaTreeItem>;
 let cachedData: MetricsResponse | null = null;
+let cachedFetchedAt = new Date();
+/** cachedData was restored from a previous session and not refreshed since */
+let cachedIsStale = false;
+/** Why the last refresh failed, until one succeeds */
+let cachedError: QuotaError | undefined;
+let scheduler: PollingScheduler;
+let statusBar: QuotaStatusBar;
+let thresholdNotifier: ThresholdNotifier;
+let resetScheduler: ResetScheduler;
+let historyStore: HistoryStore;
 
 export function activate(context: vscode.ExtensionContext) {
-    console.log('Antigravity Quota Monitor is now active');
+    context.subscriptions.push(initLogger());
+    log.info(`Antigravity Quota Monitor ${context.extension.packageJSON.version} activated`);
+
+    // Snapshots of every successful fetch, kept across restarts
+    historyStore = new HistoryStore(context.globalStorageUri);
+    context.subscriptions.push(historyStore);
 
     // Create the sidebar webview provider
-    sidebarProvider = new QuotaSidebarProvider(context.extensionUri);
+    sidebarProvider = new QuotaSidebarProvider(context.extensionUri, historyStore, context.globalState);
 
     // Register the webview view provider for the sidebar
     context.subscriptions.push(
@@ -26,11 +61,116 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Native tree alternative to the sidebar, fed by the same refreshes
+    treeProvider = new QuotaTreeProvider(historyStore, context.globalState);
+    treeView = vscode.window.createTreeView('antigravityQuotaTree', { treeDataProvider: treeProvider });
+    context.subscriptions.push(treeView);
+
+    // Status bar summary; clicking it opens the details panel
+    statusBar = new QuotaStatusBar();
+    context.subscriptions.push(statusBar);
+
+    thresholdNotifier = new ThresholdNotifier(context);
+    context.subscriptions.push(thresholdNotifier);
+
+    // Show the last good data from a previous session right away
+    restoreLastData(context);
+
+    // Match the language server to the folders open in this window
+    configureDiscovery(getDiscoveryOptions(context));
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            configureDiscovery(getDiscoveryOptions(context));
+        })
+    );
+
+    // Manual endpoint settings take precedence over discovery
+    configureEndpointOverride(getEndpointOverride());
+
+    // Background polling; manual refreshes go through the same scheduler
+    // so that only one fetch is ever in flight
+    let manualRefreshPending = false;
+    scheduler = new PollingScheduler(async (signal) => {
+        const manual = manualRefreshPending;
+        manualRefreshPending = false;
+        return refreshData(context, manual, signal);
+    }, getPollingOptions());
+    context.subscriptions.push(scheduler);
+
+    // Refetch as soon as a quota resets, even while polling is paused
+    resetScheduler = new ResetScheduler(() => void scheduler.runNow());
+    context.subscriptions.push(resetScheduler);
+
+    // Charts and trends follow history loaded from disk or cleared
+    context.subscriptions.push(historyStore.onDidChange(() => refreshViewSettings()));
+    void historyStore.load();
+
+    context.subscriptions.push(
+        sidebarProvider.onDidChangeVisibility(() => updatePollingState()),
+        treeView.onDidChangeVisibility(() => updatePollingState()),
+        QuotaWebviewPanel.onDidChangeVisibility(() => updatePollingState()),
+        vscode.window.onDidChangeWindowState(() => updatePollingState()),
+        vscode.workspace.onDidChangeConfiguration((e) => {
+            if (
+                e.affectsConfiguration('antigravityQuota.refreshInterval') ||
+                e.affectsConfiguration('antigravityQuota.maxRetryInterval')
+            ) {
+                scheduler.updateOptions(getPollingOptions());
+            }
+            if (
+                e.affectsConfiguration('antigravityQuota.serverHost') ||
+                e.affectsConfiguration('antigravityQuota.serverPort') ||
+                e.affectsConfiguration('antigravityQuota.csrfToken') ||
+                e.affectsConfiguration('antigravityQuota.csrfTokenFile') ||
+                e.affectsConfiguration('antigravityQuota.rpcPath')
+            ) {
+                configureEndpointOverride(getEndpointOverride());
+            }
+            if (
+                e.affectsConfiguration('antigravityQuota.showStatusBar') ||
+                e.affectsConfiguration('antigravityQuota.statusBarModel') ||
+                e.affectsConfiguration('antigravityQuota.heroModels') ||
+                e.affectsConfiguration('antigravityQuota.heroModel1') ||
+                e.affectsConfiguration('antigravityQuota.heroModel2') ||
+                e.affectsConfiguration('antigravityQuota.heroModel3') ||
+                e.affectsConfiguration('antigravityQuota.hiddenModels') ||
+                e.affectsConfiguration('antigravityQuota.onlyRecommended')
+            ) {
+                statusBar.refreshSettings();
+                updatePollingState();
+            }
+            if (
+                e.affectsConfiguration('antigravityQuota.heroModels') ||
+                e.affectsConfiguration('antigravityQuota.heroModel1') ||
+                e.affectsConfiguration('antigravityQuota.heroModel2') ||
+                e.affectsConfiguration('antigravityQuota.heroModel3') ||
+                e.affectsConfiguration('antigravityQuota.resetTimeFormat') ||
+                e.affectsConfiguration('antigravityQuota.hiddenModels') ||
+                e.affectsConfiguration('antigravityQuota.onlyRecommended')
+            ) {
+                refreshViewSettings();
+            }
+        })
+    );
+
     // Register refresh command
     const refreshCommand = vscode.commands.registerCommand(
         'antigravity-quota.refresh',
         async () => {
-            await refreshData();
+            if (!scheduler.isRunning) {
+                manualRefreshPending = true;
+            }
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Refreshing Antigravity quotas...',
+                    cancellable: true,
+                },
+                async (_progress, token) => {
+                    token.onCancellationRequested(() => scheduler.cancel());
+                    await scheduler.runNow();
+                }
+            );
         }
     );
 
@@ -38,9 +178,14 @@ export function activate(context: vscode.ExtensionContext) {
     const showDetailsCommand = vscode.commands.registerCommand(
         'antigravity-quota.showDetails',
         () => {
-            webviewPanel = QuotaWebviewPanel.createOrShow(context);
+            const panel = QuotaWebviewPanel.createOrShow(context, historyStore);
             if (cachedData) {
-                webviewPanel.updateContent(cachedData);
+                panel.updateContent(cachedData, cachedError, cachedFetchedAt, cachedIsStale);
+            } else if (scheduler.isRunning) {
+                panel.setLoading();
+            } else {
+                // Without data the panel shows the welcome page or why the last fetch failed
+                panel.updateContent(null, cachedError);
             }
         }
     );
@@ -56,46 +201,394 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
-    context.subscriptions.push(refreshCommand, showDetailsCommand, openSettingsCommand);
+    const showLogsCommand = vscode.commands.registerCommand(
+        'antigravity-quota.showLogs',
+        () => showLogs()
+    );
+
+    // Run discovery step by step and open a redacted report
+    const diagnoseCommand = vscode.commands.registerCommand(
+        'antigravity-quota.diagnose',
+        async () => {
+            const report = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Running Antigravity Quota diagnostics...',
+                },
+                () => runDiagnostics({
+                    discovery: getDiscoveryOptions(context),
+                    override: getEndpointOverride(),
+                    extensionVersion: context.extension.packageJSON.version,
+                    hostVersion: `${vscode.env.appName} ${vscode.version}`,
+                })
+            );
+            log.info(`Diagnostics report:\n${report}`);
+
+            const document = await vscode.workspace.openTextDocument({
+                content: report,
+                language: 'markdown',
+            });
+            await vscode.window.showTextDocument(document);
+        }
+    );
 
-    // Show welcome message
-    vscode.window.showInformationMessage(
-        'Antigravity Quota Monitor loaded. Click the refresh button to fetch quota data.'
+    const clearHistoryCommand = vscode.commands.registerCommand(
+        'antigravity-quota.clearHistory',
+        async () => {
+            const confirmed = await vscode.window.showWarningMessage(
+                'Delete all stored quota history?',
+                { modal: true },
+                'Delete'
+            );
+            if (confirmed) {
+                await historyStore.clear();
+            }
+        }
     );
+
+    const pickHeroModelsCommand = vscode.commands.registerCommand(
+        'antigravity-quota.pickHeroModels',
+        async () => {
+            if (!cachedData) {
+                vscode.window.showInformationMessage('Refresh quotas first to choose from the available models.');
+                return;
+            }
+            await pickHeroModels(cachedData.userStatus.cascadeModelConfigData.clientModelConfigs);
+        }
+    );
+
+    // Invoked from the model list's context menu and pin buttons with the row's model ID
+    const pinHeroModelCommand = vscode.commands.registerCommand(
+        'antigravity-quota.pinHeroModel',
+        async (target?: { modelId?: string }) => {
+            if (cachedData && typeof target?.modelId === 'string') {
+                await pinHeroModel(cachedData.userStatus.cascadeModelConfigData.clientModelConfigs, target.modelId);
+            }
+        }
+    );
+
+    const sortModelsCommand = vscode.commands.registerCommand(
+        'antigravity-quota.sortModels',
+        async () => {
+            if (await pickModelSortMode(context.globalState)) {
+                refreshViewSettings();
+            }
+        }
+    );
+
+    const hideModelCommand = vscode.commands.registerCommand(
+        'antigravity-quota.hideModel',
+        async (target?: { modelId?: string }) => {
+            if (typeof target?.modelId === 'string') {
+                await hideModel(target.modelId);
+            }
+        }
+    );
+
+    const manageHiddenModelsCommand = vscode.commands.registerCommand(
+        'antigravity-quota.manageHiddenModels',
+        async () => {
+            if (!cachedData) {
+                vscode.window.showInformationMessage('Refresh quotas first to choose from the available models.');
+                return;
+            }
+            await pickHiddenModels(cachedData.userStatus.cascadeModelConfigData.clientModelConfigs);
+        }
+    );
+
+    const toggleOnlyRecommendedCommand = vscode.commands.registerCommand(
+        'antigravity-quota.toggleOnlyRecommended',
+        () => toggleOnlyRecommended()
+    );
+
+    // Opens the upgrade page the server offers for the current tier
+    const upgradePlanCommand = vscode.commands.registerCommand(
+        'antigravity-quota.upgradePlan',
+        async () => {
+            const uri = cachedData?.userStatus.userTier.upgradeSubscriptionUri;
+            if (!uri) {
+                vscode.window.showInformationMessage('No upgrade is offered for your current plan.');
+                return;
+            }
+            const parsed = vscode.Uri.parse(uri);
+            if (parsed.scheme !== 'https') {
+                log.warn(`Ignoring upgrade link with scheme ${parsed.scheme}`);
+                return;
+            }
+            await vscode.env.openExternal(parsed);
+        }
+    );
+
+    // Tree item actions; the item carries the model ID
+    const copyDetailsCommand = vscode.commands.registerCommand(
+        'antigravity-quota.copyDetails',
+        async (item?: QuotaTreeItem) => {
+            const text = typeof item?.tooltip === 'string' ? item.tooltip : item?.label;
+            if (text) {
+                await vscode.env.clipboard.writeText(text);
+            }
+        }
+    );
+
+    const setThresholdCommand = vscode.commands.registerCommand(
+        'antigravity-quota.setThreshold',
+        async (target?: { modelId?: string }) => {
+            const model = cachedData?.userStatus.cascadeModelConfigData.clientModelConfigs
+                .find((m) => m.modelOrAlias.model === target?.modelId);
+            if (model) {
+                await promptModelThresholds(model);
+            }
+        }
+    );
+
+    context.subscriptions.push(
+        refreshCommand,
+        showDetailsCommand,
+        openSettingsCommand,
+        showLogsCommand,
+        diagnoseCommand,
+        clearHistoryCommand,
+        pickHeroModelsCommand,
+        pinHeroModelCommand,
+        copyDetailsCommand,
+        setThresholdCommand,
+        sortModelsCommand,
+        hideModelCommand,
+        manageHiddenModelsCommand,
+        toggleOnlyRecommendedCommand,
+        upgradePlanCommand
+    );
+
+    updatePollingState();
+
+    // Show welcome message when there is no background polling to fill the view
+    if (getPollingOptions().intervalMs <= 0) {
+        vscode.window.showInformationMessage(
+            'Antigravity Quota Monitor loaded. Click the refresh button to fetch quota data.'
+        );
+    }
+}
+
+const SELECTED_WORKSPACE_KEY = 'antigravityQuota.selectedWorkspaceId';
+/** Polling interval while only the status bar shows quotas */
+const STATUS_BAR_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+const LAST_DATA_KEY = 'antigravityQuota.lastData';
+
+interface StoredData {
+    data: MetricsResponse;
+    /** Epoch milliseconds */
+    fetchedAt: number;
+}
+
+/**
+ * Render the response saved by the last successful refresh, marked as stale
+ */
+function restoreLastData(context: vscode.ExtensionContext): void {
+    const stored = context.globalState.get<StoredData>(LAST_DATA_KEY);
+    if (!stored) {
+        return;
+    }
+
+    try {
+        // Re-validate in case the stored shape predates a model change
+        cachedData = parseMetricsResponse(stored.data);
+    } catch (error) {
+        log.warn(`Ignoring stored quota data: ${(error as Error).message}`);
+        return;
+    }
+    cachedFetchedAt = new Date(stored.fetchedAt);
+    cachedIsStale = true;
+    log.info(`Restored quota data from ${cachedFetchedAt.toISOString()}`);
+
+    sidebarProvider.restore(cachedData, cachedFetchedAt);
+    treeProvider.refresh(cachedData);
+    statusBar.update(cachedData);
+    // Models that were already low when the window closed are announced now
+    thresholdNotifier.check(cachedData);
+}
+
+function getDiscoveryOptions(context: vscode.ExtensionContext): DiscoveryOptions {
+    return {
+        workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath),
+        chooseCandidate: (candidates) => chooseServer(context, candidates),
+    };
+}
+
+/**
+ * Ask which language server to use when several are running and none
+ * clearly belongs to this window. The answer is remembered per workspace.
+ */
+async function chooseServer(
+    context: vscode.ExtensionContext,
+    candidates: ProcessCandidate[]
+): Promise<ProcessCandidate | undefined> {
+    const remembered = context.workspaceState.get<string>(SELECTED_WORKSPACE_KEY);
+    if (remembered) {
+        const match = candidates.find((c) => extractWorkspaceId(c.commandLine) === remembered);
+        if (match) {
+            return match;
+        }
+    }
+
+    const items = candidates.map((candidate) => ({
+        label: extractWorkspaceId(candidate.commandLine) ?? '(no workspace)',
+        description: `PID ${candidate.pid}`,
+        candidate,
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Antigravity Quota: Select Language Server',
+        placeHolder: 'Several Antigravity language servers are running. Which one belongs to this window?',
+        ignoreFocusOut: true,
+    });
+    if (!picked) {
+        return undefined;
+    }
+
+    const workspaceId = extractWorkspaceId(picked.candidate.commandLine);
+    if (workspaceId) {
+        await context.workspaceState.update(SELECTED_WORKSPACE_KEY, workspaceId);
+    }
+    return picked.candidate;
+}
+
+/**
+ * A non-zero serverPort switches from auto-discovery to the configured endpoint
+ */
+function getEndpointOverride(): EndpointOverride | undefined {
+    const config = vscode.workspace.getConfiguration('antigravityQuota');
+    const port = config.get<number>('serverPort', 0);
+    if (!port) {
+        return undefined;
+    }
+
+    return {
+        host: config.get<string>('serverHost', '127.0.0.1') || '127.0.0.1',
+        port,
+        token: config.get<string>('csrfToken', '') || undefined,
+        tokenFile: config.get<string>('csrfTokenFile', '') || undefined,
+        rpcPath: config.get<string>('rpcPath', '') || undefined,
+    };
+}
+
+/**
+ * Read polling settings (configured in seconds)
+ */
+function getPollingOptions(): PollingOptions {
+    const config = vscode.workspace.getConfiguration('antigravityQuota');
+    const intervalSecs = config.get<number>('refreshInterval', 120);
+    const maxRetrySecs = config.get<number>('maxRetryInterval', 900);
+    return {
+        intervalMs: Math.max(0, intervalSecs) * 1000,
+        backgroundIntervalMs: STATUS_BAR_REFRESH_INTERVAL_MS,
+        maxBackoffMs: Math.max(0, maxRetrySecs) * 1000,
+    };
 }
 
-async function refreshData(): Promise<void> {
-    sidebarProvider.setLoading();
+/**
+ * Poll only while the window is focused and one of our views is visible.
+ * An enabled status bar item keeps polling alive on its own, but only at
+ * the slower status bar interval.
+ */
+function updatePollingState(): void {
+    const viewVisible =
+        sidebarProvider.isVisible ||
+        treeView.visible ||
+        (QuotaWebviewPanel.currentPanel?.isVisible ?? false);
+    scheduler.setBackground(!viewVisible);
+    scheduler.setPaused(!(vscode.window.state.focused && (viewVisible || statusBar.isVisible)));
+}
+
+/**
+ * Re-render every view after a display preference or the history changed
+ */
+function refreshViewSettings(): void {
+    sidebarProvider.refreshSettings();
+    treeProvider.refreshSettings();
+    QuotaWebviewPanel.currentPanel?.refreshSettings();
+}
+
+async function refreshData(
+    context: vscode.ExtensionContext,
+    manual: boolean,
+    signal: AbortSignal
+): Promise<boolean> {
+    // Background polls update in place instead of flashing the spinner
+    if (manual || !cachedData) {
+        sidebarProvider.setLoading();
+        treeProvider.setLoading();
+        QuotaWebviewPanel.currentPanel?.setLoading();
+    }
+    statusBar.setLoading();
 
     try {
-        const data = await fetchMetrics();
+        const started = Date.now();
+        const data = await fetchMetrics(signal);
         cachedData = data;
+        cachedFetchedAt = new Date();
+        cachedIsStale = false;
+        cachedError = undefined;
+        log.info(`Refreshed quota data in ${Date.now() - started} ms`);
 
-        // Pass current time as last refresh time
-        const lastRefreshTime = new Date();
-        sidebarProvider.refresh(data ?? undefined, undefined, lastRefreshTime);
+        // Record first so the charts below already include this fetch
+        historyStore.record(data);
+        sidebarProvider.refresh(data, undefined, cachedFetchedAt);
+        treeProvider.refresh(data);
+        statusBar.update(data);
+        const stored: StoredData = { data, fetchedAt: cachedFetchedAt.getTime() };
+        void context.globalState.update(LAST_DATA_KEY, stored);
+        thresholdNotifier.check(data);
+        resetScheduler.update(data);
 
         // Update webview panel if open
-        if (webviewPanel && data) {
-            webviewPanel.updateContent(data);
-        }
+        QuotaWebviewPanel.currentPanel?.updateContent(data, undefined, cachedFetchedAt);
 
-        vscode.window.showInformationMessage('Quota data refreshed successfully!');
+        if (manual) {
+            vscode.window.showInformationMessage('Quota data refreshed successfully!');
+        }
+        return true;
     } catch (error) {
-        const errorMessage =
-            error instanceof Error ? error.message : 'Unknown error occurred';
-        sidebarProvider.refresh(undefined, errorMessage);
-
-        if (webviewPanel) {
-            webviewPanel.updateContent(null, errorMessage);
+        // A cancelled refresh leaves the previous data in place
+        if (error instanceof RequestCancelledError) {
+            log.info('Refresh cancelled');
+            sidebarProvider.refresh(cachedData ?? undefined);
+            treeProvider.refresh(cachedData ?? undefined);
+            statusBar.update();
+            QuotaWebviewPanel.currentPanel?.updateContent(cachedData, undefined, cachedFetchedAt, cachedIsStale);
+            return false;
         }
 
-        vscode.window.showErrorMessage(`Failed to refresh: ${errorMessage}`);
+        const quotaError = toQuotaError(error);
+        cachedError = quotaError;
+        log.error(
+            `Refresh failed [${quotaError.kind}]: ${quotaError.message}`,
+            quotaError.details
+        );
+        // The last good data stays visible under an error banner
+        sidebarProvider.refresh(undefined, quotaError);
+        treeProvider.refresh(undefined, quotaError);
+        statusBar.update(undefined, quotaError);
+
+        QuotaWebviewPanel.currentPanel?.updateContent(cachedData, quotaError, cachedFetchedAt);
+
+        if (manual) {
+            const actions = quotaError.actions;
+            vscode.window
+                .showErrorMessage(
+                    `Failed to refresh: ${quotaError.message}`,
+                    ...actions.map((a) => a.label)
+                )
+                .then((picked) => {
+                    const action = actions.find((a) => a.label === picked);
+                    if (action) {
+                        vscode.commands.executeCommand(action.command);
+                    }
+                });
+        }
+        return false;
     }
 }
 
 export function deactivate() {
-    if (webviewPanel) {
-        webviewPanel.dispose();
-    }
+    QuotaWebviewPanel.currentPanel?.dispose();
 }
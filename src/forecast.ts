@@ -0,0 +1,109 @@
+/**
+ * Burn-Rate Forecast
+ * Estimates how fast each model's quota is being used from recent history
+ * and whether it will run out before the next reset
+ */
+
+import { formatResetTime } from './metricsClient';
+import { ModelConfig } from './metricsModel';
+import { QuotaSnapshot } from './historyStore';
+
+export interface Forecast {
+    /** Fraction of the quota used per hour */
+    ratePerHour: number;
+    /** Projected epoch ms at which the quota hits zero, if it is being used */
+    exhaustsAt: number | null;
+    resetsAt: number | null;
+    /** True when the projected exhaustion comes before the reset */
+    runsOutBeforeReset: boolean;
+}
+
+/** Only recent readings reflect the current pace */
+const LOOKBACK_MS = 3 * 60 * 60 * 1000;
+/** Shorter spans are too noisy to extrapolate from */
+const MIN_SPAN_MS = 10 * 60 * 1000;
+
+/**
+ * Forecast one model from readings in its current reset window.
+ * Returns null without enough history or when the quota is already empty.
+ */
+export function forecastModel(
+    snapshots: readonly QuotaSnapshot[],
+    model: ModelConfig,
+    now: number = Date.now()
+): Forecast | null {
+    const quota = model.quotaInfo;
+    if (!quota || quota.remainingFraction <= 0) {
+        return null;
+    }
+
+    const id = model.modelOrAlias.model;
+    // A different resetTime means the reading belongs to an earlier cycle
+    const readings = snapshots
+        .filter((s) => s.timestamp >= now - LOOKBACK_MS && s.models[id]?.resetTime === quota.resetTime)
+        .map((s) => ({ t: s.timestamp, v: s.models[id].remainingFraction }));
+    if (readings.length === 0) {
+        return null;
+    }
+
+    const first = readings[0];
+    const span = now - first.t;
+    if (span < MIN_SPAN_MS) {
+        return null;
+    }
+
+    const ratePerMs = Math.max(0, (first.v - quota.remainingFraction) / span);
+    const resetsAt = Date.parse(quota.resetTime);
+    const exhaustsAt = ratePerMs > 0 ? now + quota.remainingFraction / ratePerMs : null;
+
+    return {
+        ratePerHour: ratePerMs * 60 * 60 * 1000,
+        exhaustsAt,
+        resetsAt: isNaN(resetsAt) ? null : resetsAt,
+        runsOutBeforeReset: exhaustsAt !== null && (isNaN(resetsAt) || exhaustsAt < resetsAt),
+    };
+}
+
+/**
+ * Forecasts keyed by model ID, for models with enough history
+ */
+export function forecastModels(snapshots: readonly QuotaSnapshot[], models: ModelConfig[]): Map<string, Forecast> {
+    const now = Date.now();
+    const forecasts = new Map<string, Forecast>();
+    for (const model of models) {
+        const forecast = forecastModel(snapshots, model, now);
+        if (forecast) {
+            forecasts.set(model.modelOrAlias.model, forecast);
+        }
+    }
+    return forecasts;
+}
+
+/**
+ * Short label such as "empty in 50m"
+ */
+export function formatExhaustion(forecast: Forecast): string {
+    if (forecast.exhaustsAt === null) {
+        return '';
+    }
+    return `empty in ${formatResetTime(new Date(forecast.exhaustsAt).toISOString())}`;
+}
+
+/**
+ * Sentence explaining the projection, for tooltips
+ */
+export function describeForecast(forecast: Forecast): string {
+    const rate = `Using about ${Math.round(forecast.ratePerHour * 100)}% per hour.`;
+    if (forecast.exhaustsAt === null) {
+        return 'No recent usage.';
+    }
+
+    const time = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const exhaust = `Projected to run out at ${time(forecast.exhaustsAt)}`;
+    if (forecast.resetsAt === null) {
+        return `${rate} ${exhaust}.`;
+    }
+    return forecast.runsOutBeforeReset
+        ? `${rate} ${exhaust}, before the reset at ${time(forecast.resetsAt)}.`
+        : `${rate} Should last until the reset at ${time(forecast.resetsAt)}.`;
+}
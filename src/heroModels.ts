@@ -0,0 +1,134 @@
+/**
+ * Hero Model Selection
+ * Resolves the models featured in the hero gauges from user settings
+ */
+
+import * as vscode from 'vscode';
+import { ModelConfig } from './metricsModel';
+
+/** Number of heroes shown when only the legacy per-slot settings are used */
+export const HERO_MODEL_COUNT = 3;
+
+/**
+ * Hero model IDs from the heroModels setting, in display order
+ */
+export function getHeroModelIds(): string[] {
+    return vscode.workspace
+        .getConfiguration('antigravityQuota')
+        .get<string[]>('heroModels', [])
+        .filter((id) => typeof id === 'string' && id !== '');
+}
+
+/**
+ * Legacy hero model labels from heroModel1..3, in display order
+ */
+export function getHeroModelNames(): string[] {
+    const config = vscode.workspace.getConfiguration('antigravityQuota');
+    return [
+        config.get<string>('heroModel1', 'Claude Opus 4.5 (Thinking)'),
+        config.get<string>('heroModel2', 'Gemini 3 Pro (High)'),
+        config.get<string>('heroModel3', 'Gemini 3 Flash'),
+    ];
+}
+
+function matchLabel(models: ModelConfig[], name: string): ModelConfig | undefined {
+    const wanted = name.toLowerCase();
+    // An exact label wins over a partial one, so "Gemini 3 Pro (Low)" never picks High
+    return models.find(m => m.label.toLowerCase() === wanted) ??
+        models.find(m =>
+            m.label.toLowerCase().includes(wanted) ||
+            wanted.includes(m.label.toLowerCase())
+        );
+}
+
+/**
+ * Heroes come from the heroModels IDs when any of them report quota.
+ * Otherwise the legacy labels are matched and empty slots are filled with
+ * the remaining models in response order.
+ */
+export function resolveHeroModels(
+    models: ModelConfig[],
+    ids: string[] = getHeroModelIds(),
+    names: string[] = getHeroModelNames()
+): ModelConfig[] {
+    const modelsWithQuota = models.filter(m => m.quotaInfo);
+
+    const heroModels: ModelConfig[] = [];
+    for (const id of ids) {
+        const found = modelsWithQuota.find(m => m.modelOrAlias.model === id);
+        if (found && !heroModels.includes(found)) {
+            heroModels.push(found);
+        }
+    }
+    if (heroModels.length > 0) {
+        return heroModels;
+    }
+
+    for (const name of names) {
+        const found = matchLabel(modelsWithQuota, name);
+        if (found && !heroModels.includes(found)) {
+            heroModels.push(found);
+        }
+    }
+
+    for (const m of modelsWithQuota) {
+        if (!heroModels.includes(m) && heroModels.length < HERO_MODEL_COUNT) {
+            heroModels.push(m);
+        }
+    }
+
+    return heroModels;
+}
+
+export async function setHeroModelIds(ids: string[]): Promise<void> {
+    await vscode.workspace
+        .getConfiguration('antigravityQuota')
+        .update('heroModels', [...new Set(ids)], vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Move a model into the first hero slot. The number of heroes stays the
+ * same, so the last one drops off when the model was not a hero yet.
+ */
+export async function pinHeroModel(models: ModelConfig[], modelId: string): Promise<void> {
+    const current = resolveHeroModels(models).map(m => m.modelOrAlias.model);
+    const ids = [modelId, ...current.filter(id => id !== modelId)]
+        .slice(0, Math.max(1, current.length));
+    await setHeroModelIds(ids);
+}
+
+/**
+ * Let the user choose any number of heroes from the models that report quota
+ */
+export async function pickHeroModels(models: ModelConfig[]): Promise<void> {
+    const heroes = resolveHeroModels(models);
+    const items = models
+        .filter(m => m.quotaInfo)
+        .map(m => ({
+            label: m.label,
+            description: `${Math.round(m.quotaInfo!.remainingFraction * 100)}% remaining`,
+            picked: heroes.includes(m),
+            model: m,
+        }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select the models to show in the hero gauges',
+    });
+    if (!picked) {
+        return;
+    }
+    // An empty list means "use the legacy settings", which is not what was asked for
+    if (picked.length === 0) {
+        vscode.window.showWarningMessage('Select at least one hero model. The hero models were not changed.');
+        return;
+    }
+
+    // Keep the order of existing heroes and append new ones in list order
+    const chosen = picked.map(item => item.model);
+    const ordered = [
+        ...heroes.filter(m => chosen.includes(m)),
+        ...chosen.filter(m => !heroes.includes(m)),
+    ];
+    await setHeroModelIds(ordered.map(m => m.modelOrAlias.model));
+}
@@ -0,0 +1,239 @@
+/**
+ * Quota History
+ * Keeps a compact snapshot of every successful fetch in the extension's
+ * global storage, trimmed by age and count, for trend and forecast views
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { MetricsResponse } from './metricsModel';
+import { log } from './logger';
+
+export interface ModelSnapshot {
+    remainingFraction: number;
+    resetTime: string;
+}
+
+export interface QuotaSnapshot {
+    /** Epoch milliseconds */
+    timestamp: number;
+    /** Keyed by model ID */
+    models: Record<string, ModelSnapshot>;
+    promptCredits: number;
+    flowCredits: number;
+}
+
+const HISTORY_FILE = 'quota-history.jsonl';
+/** Hard cap on stored snapshots regardless of retention */
+const MAX_SNAPSHOTS = 20000;
+/**
+ * Trimmed snapshots stay in the file until they outnumber this share of the
+ * kept ones, so steady-state trimming does not rewrite the file every fetch
+ */
+const STALE_LINES_REWRITE_RATIO = 0.25;
+/** Unchanged snapshots closer together than this are not stored */
+const MIN_UNCHANGED_INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isSnapshot(value: unknown): value is QuotaSnapshot {
+    const snapshot = value as QuotaSnapshot;
+    return (
+        typeof snapshot === 'object' && snapshot !== null &&
+        typeof snapshot.timestamp === 'number' &&
+        typeof snapshot.models === 'object' && snapshot.models !== null
+    );
+}
+
+/**
+ * Reduce a response to the fields history needs
+ */
+export function toSnapshot(data: MetricsResponse, timestamp: number = Date.now()): QuotaSnapshot {
+    const models: Record<string, ModelSnapshot> = {};
+    for (const model of data.userStatus.cascadeModelConfigData.clientModelConfigs) {
+        if (model.quotaInfo) {
+            models[model.modelOrAlias.model] = {
+                remainingFraction: model.quotaInfo.remainingFraction,
+                resetTime: model.quotaInfo.resetTime,
+            };
+        }
+    }
+
+    return {
+        timestamp,
+        models,
+        promptCredits: data.userStatus.planStatus.availablePromptCredits,
+        flowCredits: data.userStatus.planStatus.availableFlowCredits,
+    };
+}
+
+function sameQuotas(a: QuotaSnapshot, b: QuotaSnapshot): boolean {
+    const ids = Object.keys(a.models);
+    return (
+        a.promptCredits === b.promptCredits &&
+        a.flowCredits === b.flowCredits &&
+        ids.length === Object.keys(b.models).length &&
+        ids.every((id) =>
+            b.models[id]?.remainingFraction === a.models[id].remainingFraction &&
+            b.models[id]?.resetTime === a.models[id].resetTime
+        )
+    );
+}
+
+/**
+ * Snapshots are appended to a JSON Lines file and held in memory. Once the
+ * retention window is full, old entries age out about as fast as new ones
+ * arrive; they are dropped from memory right away but only removed from the
+ * file in batches.
+ */
+export class HistoryStore implements vscode.Disposable {
+    private _snapshots: QuotaSnapshot[] = [];
+    private readonly _file: string;
+    /** File writes run one after another */
+    private _writeQueue: Promise<void> = Promise.resolve();
+    /** Lines in the file for snapshots already trimmed from memory */
+    private _staleLines = 0;
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    /**
+     * Fires when history is loaded or cleared. Recording does not fire it;
+     * the fetch that recorded a snapshot refreshes the views itself.
+     */
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(storageUri: vscode.Uri) {
+        this._file = path.join(storageUri.fsPath, HISTORY_FILE);
+    }
+
+    public get snapshots(): readonly QuotaSnapshot[] {
+        return this._snapshots;
+    }
+
+    /**
+     * Snapshots taken at or after the given time, oldest first
+     */
+    public since(timestamp: number): QuotaSnapshot[] {
+        return this._snapshots.filter((s) => s.timestamp >= timestamp);
+    }
+
+    /**
+     * Read the history file; unreadable lines are skipped
+     */
+    public async load(): Promise<void> {
+        let content: string;
+        try {
+            content = await fs.readFile(this._file, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                log.warn(`Could not read quota history: ${(error as Error).message}`);
+            }
+            return;
+        }
+
+        const lines = content.split('\n').filter((line) => line.trim());
+        const loaded: QuotaSnapshot[] = [];
+        for (const line of lines) {
+            try {
+                const parsed: unknown = JSON.parse(line);
+                if (isSnapshot(parsed)) {
+                    loaded.push(parsed);
+                }
+            } catch {
+                // A partially written last line is expected after a crash
+            }
+        }
+
+        // Keep anything recorded while loading that did not make it into the file yet
+        const known = new Set(loaded.map((s) => s.timestamp));
+        this._snapshots = [...loaded, ...this._snapshots.filter((s) => !known.has(s.timestamp))]
+            .sort((a, b) => a.timestamp - b.timestamp);
+        log.debug(`Loaded ${loaded.length} quota history snapshot(s)`);
+
+        this._staleLines = this._trim();
+        // A partially written line has to go before the next append
+        if (loaded.length !== lines.length) {
+            this._staleLines = 0;
+            this._enqueue(() => this._rewrite());
+        } else {
+            this._rewriteIfStale();
+        }
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Store a snapshot of a successful fetch
+     */
+    public record(data: MetricsResponse): void {
+        const snapshot = toSnapshot(data);
+        const last = this._snapshots[this._snapshots.length - 1];
+        if (last && snapshot.timestamp - last.timestamp < MIN_UNCHANGED_INTERVAL_MS && sameQuotas(last, snapshot)) {
+            return;
+        }
+
+        this._snapshots.push(snapshot);
+        this._staleLines += this._trim();
+        if (!this._rewriteIfStale()) {
+            this._enqueue(() => this._append(snapshot));
+        }
+    }
+
+    public async clear(): Promise<void> {
+        this._snapshots = [];
+        this._staleLines = 0;
+        this._enqueue(() => this._rewrite());
+        await this._writeQueue;
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Drop snapshots past the retention period or over the cap.
+     * Returns the number removed.
+     */
+    private _trim(): number {
+        const retentionDays = vscode.workspace
+            .getConfiguration('antigravityQuota')
+            .get<number>('historyRetentionDays', 30);
+        const cutoff = Date.now() - Math.max(1, retentionDays) * DAY_MS;
+
+        const before = this._snapshots.length;
+        this._snapshots = this._snapshots.filter((s) => s.timestamp >= cutoff).slice(-MAX_SNAPSHOTS);
+        return before - this._snapshots.length;
+    }
+
+    /**
+     * Rewrite the file once enough trimmed snapshots have piled up in it.
+     * Returns true when a rewrite was queued.
+     */
+    private _rewriteIfStale(): boolean {
+        if (this._staleLines === 0 || this._staleLines < this._snapshots.length * STALE_LINES_REWRITE_RATIO) {
+            return false;
+        }
+        this._staleLines = 0;
+        this._enqueue(() => this._rewrite());
+        return true;
+    }
+
+    private _enqueue(write: () => Promise<void>): void {
+        this._writeQueue = this._writeQueue.then(write).catch((error) => {
+            log.warn(`Could not write quota history: ${(error as Error).message}`);
+        });
+    }
+
+    private async _append(snapshot: QuotaSnapshot): Promise<void> {
+        await fs.mkdir(path.dirname(this._file), { recursive: true });
+        await fs.appendFile(this._file, JSON.stringify(snapshot) + '\n', 'utf-8');
+    }
+
+    private async _rewrite(): Promise<void> {
+        await fs.mkdir(path.dirname(this._file), { recursive: true });
+        const content = this._snapshots.map((s) => JSON.stringify(s) + '\n').join('');
+        // Write a temporary file first so a crash never leaves a truncated history
+        const temp = `${this._file}.tmp`;
+        await fs.writeFile(temp, content, 'utf-8');
+        await fs.rename(temp, this._file);
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
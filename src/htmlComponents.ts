@@ -0,0 +1,1093 @@
+/**
+ * HTML Components
+ * Markup and styles shared by the sidebar and the details panel. Each
+ * surface picks a theme; the components themselves are identical.
+ */
+
+import { randomBytes } from 'crypto';
+import * as vscode from 'vscode';
+import { QuotaError } from './errors';
+import { renderRangeSparklines, TREND_RANGES } from './charts';
+import { describeForecast, formatExhaustion } from './forecast';
+import { MODEL_SORT_MODES, ModelGroup } from './modelSort';
+import {
+    CapabilityMatrixViewModel,
+    CapabilityRowViewModel,
+    CreditViewModel,
+    EntitlementViewModel,
+    formatClockTime,
+    formatTimeAgo,
+    ModelViewModel,
+    PlanViewModel,
+    QuotaViewModel,
+    UserViewModel,
+} from './viewModel';
+
+export type Surface = 'sidebar' | 'panel';
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+/**
+ * Escape a value for use in element content or a quoted attribute. Every
+ * string that comes from the server or settings goes through this.
+ */
+export function escapeHtml(value: unknown): string {
+    return String(value).replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+}
+
+export interface RenderOptions {
+    /** Show 24h/7d sparklines next to models and credits */
+    trends?: boolean;
+}
+
+const THEMES: Record<Surface, string> = {
+    // Compact neon look for the narrow sidebar
+    sidebar: `
+        :root {
+            --bg-base: #0a0a0f;
+            --bg-surface: #12121a;
+            --bg-elevated: #1a1a25;
+            --bg-overlay: #22222f;
+            --border-default: #2a2a3a;
+            --border-muted: rgba(255, 255, 255, 0.06);
+            --fg-default: #f0f0f5;
+            --fg-muted: #9090a0;
+            --fg-subtle: #606070;
+            --accent-primary-rgb: 170, 102, 255;
+            --accent-primary: rgb(var(--accent-primary-rgb));
+            --accent-secondary-rgb: 0, 212, 255;
+            --accent-secondary: rgb(var(--accent-secondary-rgb));
+            --accent-tertiary: #00ff88;
+            --status-healthy-rgb: 68, 221, 136;
+            --status-healthy: rgb(var(--status-healthy-rgb));
+            --status-warning-rgb: 255, 187, 51;
+            --status-warning: rgb(var(--status-warning-rgb));
+            --status-critical-rgb: 255, 85, 119;
+            --status-critical: rgb(var(--status-critical-rgb));
+            --glow: 8px;
+            --font-display: var(--vscode-editor-font-family), monospace;
+            --font-size: 12px;
+            --gauge-size: 80px;
+            --container-padding: 12px;
+            --container-width: none;
+        }`,
+    // Roomier dashboard look for the editor panel
+    panel: `
+        :root {
+            --bg-base: #0d1117;
+            --bg-surface: #161b22;
+            --bg-elevated: #161b22;
+            --bg-overlay: #21262d;
+            --border-default: #30363d;
+            --border-muted: rgba(240, 246, 252, 0.1);
+            --fg-default: #e6edf3;
+            --fg-muted: #8b949e;
+            --fg-subtle: #6e7681;
+            --accent-primary-rgb: 163, 113, 247;
+            --accent-primary: rgb(var(--accent-primary-rgb));
+            --accent-secondary-rgb: 88, 166, 255;
+            --accent-secondary: rgb(var(--accent-secondary-rgb));
+            --accent-tertiary: #39d5ff;
+            --status-healthy-rgb: 63, 185, 80;
+            --status-healthy: rgb(var(--status-healthy-rgb));
+            --status-warning-rgb: 210, 153, 34;
+            --status-warning: rgb(var(--status-warning-rgb));
+            --status-critical-rgb: 248, 81, 73;
+            --status-critical: rgb(var(--status-critical-rgb));
+            --glow: 0px;
+            --font-display: var(--vscode-editor-font-family), monospace;
+            --font-size: 13px;
+            --gauge-size: 90px;
+            --container-padding: 20px;
+            --container-width: 600px;
+        }`,
+};
+
+const BASE_STYLES = `
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+
+        body {
+            font-family: var(--vscode-font-family), -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+            background: var(--bg-base);
+            color: var(--fg-default);
+            font-size: var(--font-size);
+            line-height: 1.5;
+            -webkit-font-smoothing: antialiased;
+            overflow-x: hidden;
+        }
+
+        .container {
+            padding: var(--container-padding);
+            max-width: var(--container-width);
+            margin: 0 auto;
+        }
+
+        .status-healthy { --status-rgb: var(--status-healthy-rgb); --status-color: var(--status-healthy); }
+        .status-warning { --status-rgb: var(--status-warning-rgb); --status-color: var(--status-warning); }
+        .status-critical { --status-rgb: var(--status-critical-rgb); --status-color: var(--status-critical); }
+
+        button {
+            padding: 4px 10px;
+            background: var(--bg-elevated);
+            border: 1px solid var(--border-default);
+            border-radius: 6px;
+            color: var(--fg-default);
+            font-size: 11px;
+            cursor: pointer;
+        }
+        button:hover { border-color: var(--fg-muted); }
+        button.primary {
+            background: rgba(var(--status-healthy-rgb), 0.15);
+            border-color: rgba(var(--status-healthy-rgb), 0.45);
+            color: var(--status-healthy);
+        }
+
+        /* ===== BANNERS ===== */
+        .refresh-banner {
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 12px;
+            margin: 4px 0 12px;
+            background: var(--bg-surface);
+            border: 1px solid var(--border-default);
+            border-radius: 8px;
+            font-size: 10px;
+            color: var(--fg-subtle);
+        }
+        .refresh-banner .time { color: var(--status-healthy); font-weight: 600; }
+        .refresh-banner .ago { color: var(--fg-muted); }
+
+        .stale-badge {
+            padding: 1px 8px;
+            background: rgba(var(--status-warning-rgb), 0.12);
+            border: 1px solid rgba(var(--status-warning-rgb), 0.35);
+            border-radius: 10px;
+            color: var(--status-warning);
+            font-size: 10px;
+            font-weight: 600;
+            white-space: nowrap;
+        }
+
+        .updated { font-size: 10px; color: var(--fg-subtle); }
+
+        .error-banner {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            justify-content: space-between;
+            gap: 8px;
+            margin-bottom: 12px;
+            padding: 8px 12px;
+            background: rgba(var(--status-critical-rgb), 0.08);
+            border: 1px solid rgba(var(--status-critical-rgb), 0.35);
+            border-radius: 8px;
+            font-size: 11px;
+        }
+        .error-banner-text { display: flex; flex-direction: column; gap: 2px; min-width: 0; }
+        .error-banner-text strong { color: var(--status-critical); }
+        .error-banner-text span { color: var(--fg-muted); }
+        .error-banner-actions { display: flex; flex-wrap: wrap; gap: 6px; }
+
+        /* ===== HERO GAUGES ===== */
+        .hero {
+            display: flex;
+            flex-wrap: wrap;
+            justify-content: center;
+            gap: 12px;
+            padding: 16px 0 20px;
+            margin-bottom: 12px;
+            border-bottom: 1px solid var(--border-muted);
+        }
+
+        .hero-gauge {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            gap: 6px;
+            flex: 1;
+            max-width: 110px;
+        }
+
+        .gauge-ring {
+            position: relative;
+            width: var(--gauge-size);
+            height: var(--gauge-size);
+            border-radius: 50%;
+            background: radial-gradient(circle, rgba(var(--status-rgb), 0.08) 0%, transparent 70%);
+        }
+        .gauge-ring svg {
+            width: 100%;
+            height: 100%;
+            transform: rotate(-90deg);
+            filter: drop-shadow(0 0 calc(var(--glow) / 2) rgba(var(--status-rgb), 0.25));
+        }
+        .gauge-bg { fill: none; stroke: var(--bg-overlay); stroke-width: 5; }
+        .gauge-fill {
+            fill: none;
+            stroke: var(--status-color);
+            stroke-width: 6;
+            stroke-linecap: round;
+            transition: stroke-dashoffset 1.2s cubic-bezier(0.4, 0, 0.2, 1);
+        }
+        .gauge-center {
+            position: absolute;
+            inset: 0;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            text-align: center;
+        }
+        .gauge-pct {
+            font-family: var(--font-display);
+            font-size: 17px;
+            font-weight: 700;
+            line-height: 1;
+            color: var(--status-color);
+            text-shadow: 0 0 calc(var(--glow) * 0.75) currentColor;
+        }
+        .gauge-pct small { font-size: 10px; font-weight: 500; opacity: 0.8; }
+        .gauge-time { margin-top: 4px; font-size: 10px; color: var(--fg-default); opacity: 0.85; }
+        .gauge-name {
+            max-width: 90px;
+            font-size: 10px;
+            font-weight: 600;
+            line-height: 1.2;
+            text-align: center;
+            color: var(--fg-muted);
+        }
+        .gauge-forecast {
+            padding: 1px 6px;
+            background: rgba(var(--status-critical-rgb), 0.12);
+            border: 1px solid rgba(var(--status-critical-rgb), 0.35);
+            border-radius: 8px;
+            color: var(--status-critical);
+            font-size: 9px;
+            font-weight: 600;
+            white-space: nowrap;
+        }
+
+        /* ===== CARDS ===== */
+        .card {
+            margin-bottom: 10px;
+            overflow: hidden;
+            background: var(--bg-surface);
+            border: 1px solid var(--border-default);
+            border-radius: 12px;
+            box-shadow: 0 4px 20px rgba(0, 0, 0, 0.3);
+        }
+        .card-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            padding: 10px 14px;
+            background: var(--bg-elevated);
+            border-bottom: 1px solid var(--border-muted);
+        }
+        .card-title {
+            font-size: 10px;
+            font-weight: 700;
+            color: var(--fg-muted);
+            text-transform: uppercase;
+            letter-spacing: 0.8px;
+        }
+        .card-meta { font-size: 9px; color: var(--fg-subtle); }
+        .sort-button {
+            margin-left: 6px;
+            padding: 1px 6px;
+            background: transparent;
+            font-size: 9px;
+        }
+        .model-group {
+            padding: 8px 0 4px;
+            font-size: 9px;
+            font-weight: 700;
+            color: var(--fg-subtle);
+            text-transform: uppercase;
+            letter-spacing: 0.8px;
+        }
+        .model-group-block:first-child .model-group { padding-top: 0; }
+        .model-group-block + .model-group-block { margin-top: 6px; padding-top: 6px; border-top: 1px solid var(--border-muted); }
+        .link-button {
+            padding: 0;
+            background: none;
+            border: none;
+            color: var(--accent-primary);
+            font-size: inherit;
+            text-decoration: underline;
+        }
+        .models-empty { color: var(--fg-subtle); font-size: 11px; text-align: center; }
+        [hidden] { display: none !important; }
+        .capabilities { overflow-x: auto; }
+        .capabilities table { width: 100%; border-collapse: collapse; font-size: 11px; }
+        .capabilities th, .capabilities td {
+            padding: 5px 8px;
+            border-bottom: 1px solid var(--border-muted);
+            text-align: center;
+            white-space: nowrap;
+        }
+        .capabilities thead th { font-size: 9px; font-weight: 700; color: var(--fg-subtle); text-transform: uppercase; }
+        .capabilities tbody th { font-weight: 500; text-align: left; }
+        .capabilities td.yes { color: var(--status-healthy); }
+        .capabilities td.no { color: var(--fg-subtle); }
+        .capabilities small { color: var(--fg-subtle); font-size: 9px; text-transform: none; }
+        .badge {
+            margin-left: 6px;
+            padding: 1px 6px;
+            background: var(--bg-overlay);
+            border-radius: 8px;
+            color: var(--fg-muted);
+            font-size: 9px;
+        }
+        .badge.default { background: rgba(var(--accent-primary-rgb), 0.2); color: var(--accent-primary); }
+        .plan-upgrade {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            gap: 10px;
+            margin-bottom: 12px;
+            padding: 8px 10px;
+            background: rgba(var(--accent-primary-rgb), 0.1);
+            border: 1px solid rgba(var(--accent-primary-rgb), 0.3);
+            border-radius: 8px;
+            font-size: 11px;
+        }
+        .plan-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 12px; }
+        .plan-list { display: grid; grid-template-columns: 1fr auto; gap: 3px 10px; font-size: 11px; }
+        .plan-list dt { color: var(--fg-muted); }
+        .plan-list dd { text-align: right; }
+        .plan-list dd.yes { color: var(--status-healthy); }
+        .plan-list dd.no { color: var(--fg-subtle); }
+        .model-search {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 6px;
+            margin-bottom: 10px;
+            font-size: 11px;
+            color: var(--fg-muted);
+        }
+        .model-search input[type="search"], .model-search select {
+            padding: 4px 8px;
+            background: var(--bg-surface);
+            border: 1px solid var(--border-default);
+            border-radius: 6px;
+            color: var(--fg-default);
+            font: inherit;
+        }
+        .model-search input[type="search"] { flex: 1; min-width: 120px; }
+        .model-search label { display: flex; align-items: center; gap: 4px; }
+        .card-content { padding: 14px; }
+
+        /* ===== CREDITS ===== */
+        .credits-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 10px; }
+        .credit-box {
+            padding: 12px;
+            background: var(--bg-overlay);
+            border: 1px solid var(--border-muted);
+            border-radius: 10px;
+        }
+        .credit-label {
+            margin-bottom: 6px;
+            font-size: 9px;
+            font-weight: 700;
+            color: var(--fg-subtle);
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .credit-value { font-family: var(--font-display); font-size: 18px; font-weight: 700; }
+        .credit-value span { font-family: var(--vscode-font-family), sans-serif; font-size: 12px; font-weight: 400; color: var(--fg-subtle); }
+        .credit-bar { height: 4px; margin-top: 10px; overflow: hidden; background: var(--bg-base); border-radius: 2px; }
+        .credit-bar-fill { height: 100%; border-radius: 2px; transition: width 0.8s ease; }
+        .credit-bar-fill.prompt {
+            background: linear-gradient(90deg, var(--accent-primary), var(--accent-secondary));
+            box-shadow: 0 0 var(--glow) var(--accent-primary);
+        }
+        .credit-bar-fill.flow {
+            background: linear-gradient(90deg, var(--accent-secondary), var(--accent-tertiary));
+            box-shadow: 0 0 var(--glow) var(--accent-secondary);
+        }
+        .credit-trend { margin-top: 8px; }
+        .credit-trend.prompt .sparkline { color: var(--accent-primary); }
+        .credit-trend.flow .sparkline { color: var(--accent-secondary); }
+
+        /* ===== USER ===== */
+        .user-row { display: flex; align-items: center; gap: 12px; padding: 12px 14px; }
+        .user-avatar {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            flex-shrink: 0;
+            width: 36px;
+            height: 36px;
+            border-radius: 50%;
+            background: linear-gradient(135deg, var(--accent-primary), var(--accent-secondary));
+            color: #fff;
+            font-size: 14px;
+            font-weight: 700;
+            box-shadow: 0 0 calc(var(--glow) * 2) rgba(var(--accent-primary-rgb), 0.4);
+        }
+        .user-info { flex: 1; min-width: 0; }
+        .user-name, .user-email { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .user-name { font-size: 13px; font-weight: 600; }
+        .user-email { font-size: 10px; color: var(--fg-subtle); }
+        .user-badge {
+            padding: 4px 10px;
+            background: rgba(var(--accent-secondary-rgb), 0.18);
+            border: 1px solid rgba(var(--accent-secondary-rgb), 0.4);
+            border-radius: 14px;
+            color: var(--accent-secondary);
+            font-size: 9px;
+            font-weight: 700;
+            white-space: nowrap;
+        }
+
+        /* ===== MODEL LIST ===== */
+        .model-row {
+            display: grid;
+            grid-template-columns: 10px 1fr auto 50px 36px auto auto;
+            gap: 8px;
+            align-items: center;
+            padding: 10px 0;
+            border-bottom: 1px solid var(--border-muted);
+        }
+        .model-row:last-child { border-bottom: none; padding-bottom: 0; }
+        .dot {
+            width: 10px;
+            height: 10px;
+            border-radius: 50%;
+            background: var(--status-color);
+            box-shadow: 0 0 var(--glow) var(--status-color);
+        }
+        .name { font-size: 11px; font-weight: 500; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .bar-track { height: 4px; overflow: hidden; background: var(--bg-base); border-radius: 2px; }
+        .bar-fill { height: 100%; border-radius: 2px; background: var(--status-color); transition: width 0.6s ease; }
+        .pct { font-family: var(--font-display); font-size: 10px; font-weight: 600; color: var(--fg-muted); text-align: right; }
+        .time { font-size: 9px; color: var(--fg-subtle); white-space: nowrap; }
+        .time.runs-out { color: var(--status-critical); }
+
+        .footer { padding: 14px; text-align: center; font-size: 9px; color: var(--fg-subtle); }
+
+        /* ===== ANIMATIONS ===== */
+        @keyframes fadeIn {
+            from { opacity: 0; transform: translateY(10px); }
+            to { opacity: 1; transform: translateY(0); }
+        }
+        /* Only the first paint animates; later patches must not flash */
+        body:not(.ready) .hero { animation: fadeIn 0.5s ease; }
+        body:not(.ready) .card { animation: fadeIn 0.4s ease backwards; }
+
+        @keyframes spin { to { transform: rotate(360deg); } }
+        .refresh-button {
+            padding: 0 6px;
+            margin-left: 4px;
+            line-height: 16px;
+        }
+        body.refreshing .refresh-button { animation: spin 0.8s linear infinite; }
+        .pin-button {
+            padding: 0 4px;
+            background: transparent;
+            border-color: transparent;
+            font-size: 10px;
+            opacity: 0;
+        }
+        .model-row:hover .pin-button { opacity: 0.8; }
+`;
+
+const MESSAGE_PAGE_STYLES = `
+        .message-page {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            min-height: 100vh;
+            padding: 20px;
+            text-align: center;
+            color: var(--fg-muted);
+        }
+        .message-page .icon { width: 44px; height: 44px; margin-bottom: 14px; }
+        .message-page h3 { margin-bottom: 8px; font-size: 14px; color: var(--fg-default); }
+        .message-page .critical { color: var(--status-critical); }
+        .message-page .accent { color: var(--accent-tertiary); }
+        .message-page p { line-height: 1.4; }
+        .message-page .hint { margin-top: 8px; font-size: 11px; color: var(--fg-subtle); }
+        .message-page dl {
+            display: grid;
+            grid-template-columns: auto 1fr;
+            gap: 2px 8px;
+            margin-top: 12px;
+            padding: 8px 10px;
+            background: var(--bg-surface);
+            border: 1px solid var(--border-default);
+            border-radius: 6px;
+            font-size: 10px;
+            text-align: left;
+        }
+        .message-page dt { color: var(--fg-subtle); }
+        .message-page dd { color: var(--fg-muted); word-break: break-all; }
+        .message-page .actions { display: flex; flex-wrap: wrap; justify-content: center; gap: 6px; margin-top: 14px; }
+        .spinner {
+            width: 36px;
+            height: 36px;
+            margin-bottom: 14px;
+            border: 3px solid var(--bg-overlay);
+            border-top-color: var(--accent-primary);
+            border-radius: 50%;
+            animation: spin 0.7s linear infinite;
+        }
+`;
+
+/**
+ * Client side of the webview: patches sections sent by the extension and
+ * reports clicks on [data-command] and [data-action] elements
+ */
+const SHELL_SCRIPT = `
+(function () {
+    const vscode = window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    const app = document.getElementById('app');
+    const rendered = new Map();
+
+    function patch(view, sections) {
+        if (app.dataset.view !== view) {
+            app.replaceChildren();
+            rendered.clear();
+            app.dataset.view = view;
+            app.className = view === 'message' ? 'message-page' : 'container';
+        }
+
+        const wanted = new Set(sections.map((section) => section.id));
+        Array.from(app.children).forEach((child) => {
+            if (!wanted.has(child.dataset.section)) {
+                rendered.delete(child.dataset.section);
+                child.remove();
+            }
+        });
+
+        let previous = null;
+        sections.forEach((section) => {
+            let node = Array.from(app.children).find((child) => child.dataset.section === section.id);
+            if (!node) {
+                node = document.createElement('div');
+                node.dataset.section = section.id;
+            }
+            if (rendered.get(section.id) !== section.html) {
+                node.innerHTML = section.html;
+                rendered.set(section.id, section.html);
+                // Inline style attributes are blocked by the CSP
+                node.querySelectorAll('[data-width]').forEach((el) => {
+                    el.style.setProperty('width', el.dataset.width + '%');
+                });
+            }
+            const expected = previous ? previous.nextSibling : app.firstChild;
+            if (node !== expected) {
+                app.insertBefore(node, expected);
+            }
+            previous = node;
+        });
+    }
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (message.type === 'render') {
+            patch(message.view, message.sections);
+            document.body.classList.remove('refreshing');
+            requestAnimationFrame(() => document.body.classList.add('ready'));
+        } else if (message.type === 'loading') {
+            document.body.classList.toggle('refreshing', message.value);
+        }
+    });
+
+    document.addEventListener('click', (event) => {
+        const target = event.target.closest('[data-command], [data-action]');
+        if (!target) {
+            return;
+        }
+        if (target.dataset.command) {
+            vscode.postMessage({ type: 'runCommand', command: target.dataset.command });
+        } else if (target.dataset.action === 'pin') {
+            vscode.postMessage({ type: 'pin', modelId: target.dataset.model });
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+})();
+`;
+
+export interface ShellOptions {
+    styles?: string;
+    script?: string;
+    bodyAttributes?: string;
+}
+
+/**
+ * Webview options shared by the sidebar and the panel. Only the bundled
+ * assets folder can be loaded from disk.
+ */
+export function getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+    return {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'assets')],
+    };
+}
+
+/**
+ * The static page a webview loads once; content arrives through render messages.
+ * Scripts run only with a fresh nonce; nothing loads from the network.
+ */
+export function renderShell(surface: Surface, webview: vscode.Webview, options: ShellOptions = {}): string {
+    const nonce = randomBytes(16).toString('base64');
+    // The shell's own <style> and <script> carry the nonce; bar widths are
+    // set by the script because inline style attributes are not allowed
+    const csp = [
+        "default-src 'none'",
+        `img-src ${webview.cspSource} data:`,
+        `font-src ${webview.cspSource}`,
+        `style-src ${webview.cspSource} 'nonce-${nonce}'`,
+        `script-src 'nonce-${nonce}'`,
+    ].join('; ');
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <title>Antigravity Quota</title>
+    <style nonce="${nonce}">
+${THEMES[surface]}
+${BASE_STYLES}
+${MESSAGE_PAGE_STYLES}
+${options.styles ?? ''}
+    </style>
+</head>
+<body ${options.bodyAttributes ?? ''}>
+    <div id="app"></div>
+    <script nonce="${nonce}">
+${SHELL_SCRIPT}
+${options.script ?? ''}
+    </script>
+</body>
+</html>
+    `;
+}
+
+function renderActionButtons(error: QuotaError): string {
+    return error.actions
+        .map((action, i) => `<button class="${i === 0 ? 'primary' : ''}" data-command="${escapeHtml(action.command)}">${escapeHtml(action.label)}</button>`)
+        .join('');
+}
+
+export function renderLoading(): string {
+    return `
+    <div class="spinner"></div>
+    <div>Loading quotas...</div>`;
+}
+
+/**
+ * Full-view error for when there is no data to fall back on
+ */
+export function renderErrorMessage(error: QuotaError): string {
+    const details = Object.entries(error.details)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => `<dt>${escapeHtml(key)}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join('');
+
+    return `
+    <svg class="icon critical" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <circle cx="12" cy="12" r="10" stroke-width="2"/>
+        <line x1="12" y1="8" x2="12" y2="12" stroke-width="2" stroke-linecap="round"/>
+        <circle cx="12" cy="16" r="1" fill="currentColor"/>
+    </svg>
+    <h3 class="critical">${escapeHtml(error.title)}</h3>
+    <p>${escapeHtml(error.message)}</p>
+    <p class="hint">${escapeHtml(error.hint)}</p>
+    ${details ? `<dl>${details}</dl>` : ''}
+    <div class="actions">${renderActionButtons(error)}</div>`;
+}
+
+export function renderWelcome(): string {
+    return `
+    <svg class="icon accent" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path stroke-linecap="round" stroke-linejoin="round" stroke-width="1.5" d="M13 10V3L4 14h7v7l9-11h-7z"/>
+    </svg>
+    <h3>Antigravity Quota Monitor</h3>
+    <p>Click refresh to load your AI model quotas.</p>
+    <div class="actions">
+        <button class="primary" data-command="antigravity-quota.refresh">Refresh</button>
+        <button data-command="antigravity-quota.openSettings">Settings</button>
+    </div>`;
+}
+
+/**
+ * Compact error shown above data that is still on screen
+ */
+export function renderErrorBanner(error: QuotaError | undefined): string {
+    if (!error) {
+        return '';
+    }
+    return `
+        <div class="error-banner">
+            <div class="error-banner-text">
+                <strong>${escapeHtml(error.title)}</strong>
+                <span>${escapeHtml(error.message)}</span>
+            </div>
+            <div class="error-banner-actions">${renderActionButtons(error)}</div>
+        </div>`;
+}
+
+export function renderRefreshBanner(vm: QuotaViewModel): string {
+    const time = formatClockTime(vm.fetchedAt);
+    const ago = formatTimeAgo(vm.fetchedAt);
+    const button = '<button class="refresh-button" data-command="antigravity-quota.refresh" title="Refresh">⟳</button>';
+    return vm.stale
+        ? `<div class="refresh-banner"><span class="stale-badge">Stale since ${time}</span><span class="ago">(${ago})</span>${button}</div>`
+        : `<div class="refresh-banner"><span>Last refreshed:</span><span class="time">${time}</span><span class="ago">(${ago})</span>${button}</div>`;
+}
+
+function renderForecastBadge(model: ModelViewModel): string {
+    const forecast = model.forecast;
+    if (!forecast?.runsOutBeforeReset) {
+        return '';
+    }
+    return `<div class="gauge-forecast" title="${escapeHtml(describeForecast(forecast))}">⚠ ${escapeHtml(formatExhaustion(forecast))}</div>`;
+}
+
+export function renderHeroGauge(model: ModelViewModel, options: RenderOptions = {}): string {
+    const radius = 34;
+    const circumference = 2 * Math.PI * radius;
+    const offset = circumference - (model.percentage / 100) * circumference;
+
+    return `
+                <div class="hero-gauge status-${model.status}" title="${escapeHtml(model.label)}">
+                    <div class="gauge-ring">
+                        <svg viewBox="0 0 80 80">
+                            <circle class="gauge-bg" cx="40" cy="40" r="${radius}"/>
+                            <circle class="gauge-fill" cx="40" cy="40" r="${radius}"
+                                stroke-dasharray="${circumference}" stroke-dashoffset="${offset}"/>
+                        </svg>
+                        <div class="gauge-center">
+                            <span class="gauge-pct">${model.percentage}<small>%</small></span>
+                            <span class="gauge-time">${escapeHtml(model.resetText)}</span>
+                        </div>
+                    </div>
+                    <div class="gauge-name">${escapeHtml(model.shortName)}</div>
+                    ${options.trends && model.trends ? renderRangeSparklines(model.trends, 70, 16) : ''}
+                    ${renderForecastBadge(model)}
+                </div>`;
+}
+
+export function renderHeroSection(heroes: ModelViewModel[], options: RenderOptions = {}): string {
+    return `
+        <div class="hero">
+            ${heroes.map((model) => renderHeroGauge(model, options)).join('')}
+        </div>`;
+}
+
+function renderCreditBox(credit: CreditViewModel, options: RenderOptions): string {
+    return `
+                    <div class="credit-box">
+                        <div class="credit-label">${escapeHtml(credit.label)}</div>
+                        <div class="credit-value">${escapeHtml(credit.currentText)}<span>/${escapeHtml(credit.totalText)}</span></div>
+                        <div class="credit-bar">
+                            <div class="credit-bar-fill ${credit.kind}" data-width="${credit.percentage}"></div>
+                        </div>
+                        ${options.trends && credit.trends ? `<div class="credit-trend ${credit.kind}">${renderRangeSparklines(credit.trends, 200, 20)}</div>` : ''}
+                    </div>`;
+}
+
+export function renderCreditsCard(credits: CreditViewModel[], meta: string, options: RenderOptions = {}): string {
+    return `
+        <div class="card">
+            <div class="card-header">
+                <span class="card-title">AI Credits</span>
+                ${meta}
+            </div>
+            <div class="card-content">
+                <div class="credits-grid">
+                    ${credits.map((credit) => renderCreditBox(credit, options)).join('')}
+                </div>
+            </div>
+        </div>`;
+}
+
+export function renderUserCard(user: UserViewModel): string {
+    return `
+        <div class="card">
+            <div class="user-row">
+                <div class="user-avatar">${escapeHtml(user.initial)}</div>
+                <div class="user-info">
+                    <div class="user-name">${escapeHtml(user.name)}</div>
+                    <div class="user-email">${escapeHtml(user.email)}</div>
+                </div>
+                <span class="user-badge">${escapeHtml(user.tierName)}</span>
+            </div>
+        </div>`;
+}
+
+export function renderModelRow(model: ModelViewModel, options: RenderOptions = {}): string {
+    const forecast = model.forecast;
+    const runsOut = forecast?.runsOutBeforeReset ?? false;
+    // Read by the webview/context menu contributions
+    const menuContext = { webviewSection: 'model', modelId: model.id, preventDefaultContextMenuItems: true };
+    return `
+                <div class="model-row status-${model.status}" data-vscode-context="${escapeHtml(JSON.stringify(menuContext))}"
+                    data-search="${escapeHtml(`${model.label} ${model.provider}`.toLowerCase())}"
+                    data-status="${runsOut ? `${model.status} runs-out` : model.status}"
+                    data-images="${model.supportsImages}">
+                    <span class="dot"></span>
+                    <span class="name" title="${escapeHtml(model.label)}">${escapeHtml(model.label)}</span>
+                    <span>${options.trends && model.trends ? renderRangeSparklines(model.trends, 60, 16) : ''}</span>
+                    <div class="bar-track">
+                        <div class="bar-fill" data-width="${model.percentage}"></div>
+                    </div>
+                    <span class="pct">${model.percentage}%</span>
+                    <span class="time${runsOut ? ' runs-out' : ''}"${forecast ? ` title="${escapeHtml(describeForecast(forecast))}"` : ''}>⏱ ${escapeHtml(model.resetText)}</span>
+                    <button class="pin-button" data-action="pin" data-model="${escapeHtml(model.id)}" title="Pin as hero model">📌</button>
+                </div>`;
+}
+
+function renderModelGroup(group: ModelGroup<ModelViewModel>, options: RenderOptions): string {
+    return `
+                <div class="model-group-block">
+                    ${group.name ? `<div class="model-group">${escapeHtml(group.name)}</div>` : ''}
+                    ${group.models.map((model) => renderModelRow(model, options)).join('')}
+                </div>`;
+}
+
+export function renderModelsCard(vm: QuotaViewModel, options: RenderOptions = {}): string {
+    if (vm.models.length === 0 && vm.hiddenCount === 0) {
+        return '';
+    }
+    const hidden = vm.hiddenCount > 0
+        ? ` · <button class="link-button" data-command="antigravity-quota.manageHiddenModels" title="Choose hidden models">${vm.hiddenCount} hidden</button>`
+        : '';
+    return `
+        <div class="card">
+            <div class="card-header">
+                <span class="card-title">All Models</span>
+                <span class="card-meta">
+                    ${vm.models.length} shown${hidden}
+                    <button class="sort-button" data-command="antigravity-quota.sortModels" title="Change sort order">⇅ ${MODEL_SORT_MODES[vm.sortMode].label}</button>
+                </span>
+            </div>
+            <div class="card-content">
+                ${vm.modelGroups.map((group) => renderModelGroup(group, options)).join('')}
+                <div class="models-empty" hidden>No models match</div>
+            </div>
+        </div>`;
+}
+
+/**
+ * Filter bar for the panel's model list. Its markup never changes, so
+ * patching leaves the query and focus alone (see MODEL_SEARCH_SCRIPT).
+ */
+export function renderModelSearch(): string {
+    return `
+        <div class="model-search">
+            <input type="search" id="model-query" placeholder="Filter by name or provider" aria-label="Filter models">
+            <select id="model-state" aria-label="Quota state">
+                <option value="">Any quota</option>
+                <option value="healthy">Healthy</option>
+                <option value="warning">Warning</option>
+                <option value="critical">Critical</option>
+                <option value="runs-out">Runs out before reset</option>
+            </select>
+            <label><input type="checkbox" id="model-images"> Images</label>
+        </div>`;
+}
+
+/**
+ * Applies the model search bar to the rendered rows, again after every
+ * render message. The query survives reloads through the webview state.
+ */
+export const MODEL_SEARCH_SCRIPT = `
+(function () {
+    const vscode = window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    const saved = Object.assign({ query: '', state: '', images: false }, (vscode.getState() || {}).modelSearch);
+
+    function controls() {
+        return {
+            query: document.getElementById('model-query'),
+            state: document.getElementById('model-state'),
+            images: document.getElementById('model-images'),
+        };
+    }
+
+    function apply() {
+        const c = controls();
+        if (!c.query) { return; }
+        const search = { query: c.query.value, state: c.state.value, images: c.images.checked };
+        vscode.setState(Object.assign({}, vscode.getState(), { modelSearch: search }));
+
+        const terms = search.query.toLowerCase().split(/\\s+/).filter(Boolean);
+        let shown = 0;
+        document.querySelectorAll('.model-row').forEach((row) => {
+            const match = terms.every((term) => row.dataset.search.includes(term)) &&
+                (!search.state || row.dataset.status.split(' ').includes(search.state)) &&
+                (!search.images || row.dataset.images === 'true');
+            row.hidden = !match;
+            shown += match ? 1 : 0;
+        });
+        document.querySelectorAll('.model-group-block').forEach((block) => {
+            block.hidden = !block.querySelector('.model-row:not([hidden])');
+        });
+        document.querySelectorAll('.models-empty').forEach((empty) => {
+            empty.hidden = shown > 0;
+        });
+    }
+
+    function restore() {
+        const c = controls();
+        if (!c.query || c.query.dataset.restored) { return; }
+        c.query.dataset.restored = 'true';
+        c.query.value = saved.query;
+        c.state.value = saved.state;
+        c.images.checked = saved.images;
+    }
+
+    document.addEventListener('input', (event) => {
+        if (event.target.closest('.model-search')) { apply(); }
+    });
+    window.addEventListener('message', (event) => {
+        if (event.data.type === 'render') {
+            restore();
+            apply();
+        }
+    });
+})();
+`;
+
+function renderCapabilityRow(row: CapabilityRowViewModel, categories: string[]): string {
+    const badges = [
+        row.isDefault ? '<span class="badge default">Default</span>' : '',
+        row.isRecommended ? '<span class="badge">Recommended</span>' : '',
+        row.tag ? `<span class="badge">${escapeHtml(row.tag)}</span>` : '',
+    ].join('');
+    const cells = categories.map((category) => {
+        const types = row.mimeTypes[category];
+        return types
+            ? `<td class="yes" title="${escapeHtml(types.join(', '))}">✓ <small>${types.length}</small></td>`
+            : '<td class="no" title="Not accepted">—</td>';
+    }).join('');
+    const tierText = row.onYourTier === undefined ? `${row.tiers.length} tiers` : row.onYourTier ? '✓ Your plan' : 'Not on your plan';
+    return `
+                    <tr>
+                        <th scope="row">${escapeHtml(row.label)}${badges}</th>
+                        ${cells}
+                        <td class="${row.onYourTier === false ? 'no' : ''}" title="${escapeHtml(row.tiers.join(', ') || 'No tiers listed')}">${tierText}</td>
+                    </tr>`;
+}
+
+/**
+ * Which models accept which kinds of input and which tiers may use them.
+ * Cell tooltips list the exact MIME types and tiers.
+ */
+export function renderCapabilitiesCard(matrix: CapabilityMatrixViewModel): string {
+    if (matrix.rows.length === 0) {
+        return '';
+    }
+    const meta = matrix.defaultModel ? `Default: ${escapeHtml(matrix.defaultModel)}` : '';
+    return `
+        <div class="card">
+            <div class="card-header">
+                <span class="card-title">Capabilities</span>
+                <span class="card-meta">${meta}</span>
+            </div>
+            <div class="card-content capabilities">
+                <table>
+                    <thead>
+                        <tr>
+                            <th scope="col">Model</th>
+                            ${matrix.categories.map((category) => `<th scope="col">${escapeHtml(category)}</th>`).join('')}
+                            <th scope="col">Tiers${matrix.yourTier ? ` <small>(you: ${escapeHtml(matrix.yourTier)})</small>` : ''}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${matrix.rows.map((row) => renderCapabilityRow(row, matrix.categories)).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>`;
+}
+
+function renderEntitlements(title: string, entries: EntitlementViewModel[]): string {
+    if (entries.length === 0) {
+        return '';
+    }
+    const rows = entries.map((entry) => {
+        if (entry.enabled === undefined) {
+            return `<dt>${escapeHtml(entry.label)}</dt><dd>${escapeHtml(entry.value)}</dd>`;
+        }
+        const mark = entry.enabled ? '<dd class="yes">✓ ' : '<dd class="no">✕ ';
+        return `<dt>${escapeHtml(entry.label)}</dt>${mark}${escapeHtml(entry.value)}</dd>`;
+    }).join('');
+    return `
+                <div class="plan-group">
+                    <div class="model-group">${escapeHtml(title)}</div>
+                    <dl class="plan-list">${rows}</dl>
+                </div>`;
+}
+
+/**
+ * Limits and feature entitlements of the user's plan, with an upgrade
+ * action when the server offers one
+ */
+export function renderPlanCard(plan: PlanViewModel): string {
+    const upgrade = plan.upgrade
+        ? `
+                <div class="plan-upgrade">
+                    <span>${escapeHtml(plan.upgrade.text)}</span>
+                    <button class="primary" data-command="antigravity-quota.upgradePlan">Upgrade</button>
+                </div>`
+        : '';
+    return `
+        <div class="card">
+            <div class="card-header">
+                <span class="card-title">Plan</span>
+                <span class="card-meta" title="${escapeHtml(plan.tierDescription)}">${escapeHtml(plan.planName)} · ${escapeHtml(plan.tierName)}</span>
+            </div>
+            <div class="card-content">
+                ${upgrade}
+                <div class="plan-grid">
+                    ${renderEntitlements('Limits', plan.limits)}
+                    ${renderEntitlements('Features', plan.features)}
+                    ${renderEntitlements('Team Defaults', plan.teamDefaults)}
+                </div>
+            </div>
+        </div>`;
+}
+
+/**
+ * Card hosting the interactive history chart (see CHART_SCRIPT)
+ */
+export function renderHistoryCard(): string {
+    return `
+        <div class="card">
+            <div class="card-header">
+                <span class="card-title">Usage History</span>
+                <div class="range-toggle">
+                    ${Object.keys(TREND_RANGES).map((range) => `<button data-set-range="${range}">${range}</button>`).join('')}
+                </div>
+            </div>
+            <div class="card-content">
+                <div class="history-chart">
+                    <div id="history-chart"></div>
+                    <div id="history-tooltip" class="history-tooltip"></div>
+                </div>
+                <div id="history-legend" class="history-legend"></div>
+            </div>
+        </div>`;
+}
+
+export function renderFooter(): string {
+    return `<div class="footer">⚡ Powered by Antigravity</div>`;
+}
@@ -0,0 +1,51 @@
+/**
+ * Logger
+ * Writes to the "Antigravity Quota" output channel. The level is controlled
+ * through VS Code's "Developer: Set Log Level..." command.
+ */
+
+import * as vscode from 'vscode';
+
+let channel: vscode.LogOutputChannel | undefined;
+
+export function initLogger(): vscode.LogOutputChannel {
+    if (!channel) {
+        channel = vscode.window.createOutputChannel('Antigravity Quota', { log: true });
+    }
+    return channel;
+}
+
+export function showLogs(): void {
+    channel?.show(true);
+}
+
+/**
+ * Mask all but the first and last four characters of a secret
+ */
+export function maskSecret(secret: string): string {
+    if (secret.length <= 8) {
+        return '*'.repeat(secret.length);
+    }
+    return `${secret.slice(0, 4)}…${secret.slice(-4)}`;
+}
+
+/**
+ * Log calls are no-ops until initLogger() has run, so modules can log freely
+ */
+export const log = {
+    trace(message: string, ...args: unknown[]): void {
+        channel?.trace(message, ...args);
+    },
+    debug(message: string, ...args: unknown[]): void {
+        channel?.debug(message, ...args);
+    },
+    info(message: string, ...args: unknown[]): void {
+        channel?.info(message, ...args);
+    },
+    warn(message: string, ...args: unknown[]): void {
+        channel?.warn(message, ...args);
+    },
+    error(message: string | Error, ...args: unknown[]): void {
+        channel?.error(message, ...args);
+    },
+};
@@ -3,157 +3,57 @@
  * Discovers the Language Server and fetches quota data
  */
 
-import { execSync } from 'child_process';
 import * as https from 'https';
 import * as http from 'http';
+import { DiscoveryOptions, ServerInfo, USER_STATUS_PATH } from './serverDiscovery';
+import { ConnectionManager, EndpointOverride } from './connectionManager';
+import {
+    ConnectionError,
+    HttpStatusError,
+    RequestCancelledError,
+    RequestTimeoutError,
+    ResponseParseError,
+} from './errors';
+import { MetricsResponse, parseMetricsResponse } from './metricsModel';
+import { log } from './logger';
+
+const connection = new ConnectionManager();
+
+/** Longest the socket may sit idle */
+const IDLE_TIMEOUT_MS = 10000;
+/** Longest a whole request may take, however the socket behaves */
+const REQUEST_DEADLINE_MS = 20000;
 
-export interface QuotaInfo {
-    remainingFraction: number;
-    resetTime: string;
-}
-
-export interface ModelConfig {
-    label: string;
-    modelOrAlias: { model: string };
-    quotaInfo?: QuotaInfo;
-    supportsImages?: boolean;
-    isRecommended?: boolean;
-}
-
-export interface PlanStatus {
-    planInfo: {
-        planName: string;
-        monthlyPromptCredits: number;
-        monthlyFlowCredits: number;
-    };
-    availablePromptCredits: number;
-    availableFlowCredits: number;
-}
-
-export interface UserStatus {
-    name: string;
-    email: string;
-    planStatus: PlanStatus;
-    cascadeModelConfigData: {
-        clientModelConfigs: ModelConfig[];
-    };
-    userTier: {
-        id: string;
-        name: string;
-        description: string;
-    };
-}
-
-export interface MetricsResponse {
-    userStatus: UserStatus;
-}
-
-interface ServerInfo {
-    pid: string;
-    token: string;
-    port: string;
+/**
+ * Configure how the language server for this window is chosen.
+ * Forgets the cached endpoint so the next fetch applies the new options.
+ */
+export function configureDiscovery(options: DiscoveryOptions): void {
+    connection.discoveryOptions = options;
+    connection.invalidate();
 }
 
 /**
- * Discover the Antigravity Language Server process
+ * Send all requests to a fixed endpoint instead of discovering one.
+ * Pass undefined to return to auto-discovery.
  */
-function discoverServer(): ServerInfo | null {
-    try {
-        // Find language_server process - look for the Antigravity language server binary
-        // It could be language_server_macos_arm, language_server_macos_x64, or similar
-        const psOutput = execSync(
-            'ps aux | grep -E "language_server_macos|language_server" | grep "csrf_token" | grep -v grep',
-            {
-                encoding: 'utf-8',
-                timeout: 5000,
-            }
-        ).trim();
-
-        if (!psOutput) {
-            return null;
-        }
-
-        // Take the first matching process
-        const firstLine = psOutput.split('\n')[0];
-
-        // Extract PID (second field in ps aux output)
-        const parts = firstLine.trim().split(/\s+/);
-        const pid = parts[1];
-
-        if (!pid || isNaN(parseInt(pid))) {
-            return null;
-        }
-
-        // Extract CSRF token from command line arguments
-        const tokenMatch = firstLine.match(/--csrf_token\s+([a-zA-Z0-9-]+)/);
-        if (!tokenMatch) {
-            return null;
-        }
-        const token = tokenMatch[1];
-
-        // Find the listening ports for this process
-        const lsofOutput = execSync(
-            `lsof -iTCP -sTCP:LISTEN -P -n -p ${pid} 2>/dev/null | grep "127.0.0.1"`,
-            { encoding: 'utf-8', timeout: 5000 }
-        ).trim();
-
-        if (!lsofOutput) {
-            return null;
-        }
-
-        // Extract all ports
-        const ports: string[] = [];
-        for (const line of lsofOutput.split('\n')) {
-            // Port is after the last colon before the "(LISTEN)" text
-            const match = line.match(/:(\d+)\s/);
-            if (match) {
-                ports.push(match[1]);
-            }
-        }
-
-        if (ports.length === 0) {
-            return null;
-        }
-
-        // Find the active port by testing each one
-        for (const port of ports) {
-            try {
-                const testResponse = execSync(
-                    `curl -s -o /dev/null -w "%{http_code}" -X POST "http://127.0.0.1:${port}/exa.language_server_pb.LanguageServerService/GetUserStatus" ` +
-                    `-H "X-Codeium-Csrf-Token: ${token}" ` +
-                    `-H "Connect-Protocol-Version: 1" ` +
-                    `-H "Content-Type: application/json" ` +
-                    `-d '{}' 2>/dev/null`,
-                    { encoding: 'utf-8', timeout: 3000 }
-                ).trim();
-
-                if (testResponse === '200') {
-                    return { pid, token, port };
-                }
-            } catch {
-                // Try next port
-            }
-        }
-
-        return null;
-    } catch (error) {
-        return null;
-    }
+export function configureEndpointOverride(override: EndpointOverride | undefined): void {
+    connection.endpointOverride = override;
+    connection.invalidate();
 }
 
 /**
  * Fetch metrics from the Language Server
  */
-export async function fetchMetrics(): Promise<MetricsResponse | null> {
-    const serverInfo = discoverServer();
-
-    if (!serverInfo) {
-        throw new Error(
-            'Could not find Antigravity Language Server. Make sure the IDE is running.'
-        );
-    }
+export async function fetchMetrics(signal?: AbortSignal): Promise<MetricsResponse> {
+    return connection.request((serverInfo) => requestUserStatus(serverInfo, signal), signal);
+}
 
-    return new Promise((resolve, reject) => {
+/**
+ * Call GetUserStatus on a known server endpoint
+ */
+function requestUserStatus(serverInfo: ServerInfo, signal?: AbortSignal): Promise<MetricsResponse> {
+    return new Promise<MetricsResponse>((resolve, reject) => {
         const postData = JSON.stringify({
             metadata: {
                 ideName: 'antigravity',
@@ -163,9 +63,9 @@ export async function fetchMetrics(): Promise<MetricsResponse | null> {
         });
 
         const options: http.RequestOptions = {
-            hostname: '127.0.0.1',
+            hostname: serverInfo.host ?? '127.0.0.1',
             port: parseInt(serverInfo.port),
-            path: '/exa.language_server_pb.LanguageServerService/GetUserStatus',
+            path: serverInfo.rpcPath ?? USER_STATUS_PATH,
             method: 'POST',
             headers: {
                 'X-Codeium-Csrf-Token': serverInfo.token,
@@ -173,34 +73,74 @@ export async function fetchMetrics(): Promise<MetricsResponse | null> {
                 'Content-Type': 'application/json',
                 'Content-Length': Buffer.byteLength(postData),
             },
+            signal,
+        };
+
+        const fail = (error: Error) => {
+            if (signal?.aborted) {
+                reject(new RequestCancelledError());
+                return;
+            }
+            reject(new ConnectionError(
+                `Failed to fetch metrics: ${error.message}`,
+                (error as NodeJS.ErrnoException).code,
+                { host: options.hostname ?? undefined, port: serverInfo.port }
+            ));
         };
 
+        const started = Date.now();
         const req = http.request(options, (res) => {
+            log.debug(`GetUserStatus on port ${serverInfo.port}: HTTP ${res.statusCode} (${Date.now() - started} ms)`);
+            if (res.statusCode !== 200) {
+                res.resume();
+                reject(new HttpStatusError(res.statusCode ?? 0, { port: serverInfo.port }));
+                return;
+            }
+
             let data = '';
 
             res.on('data', (chunk) => {
                 data += chunk;
             });
 
+            // The socket can drop mid-body without the request timing out
+            res.on('aborted', () => fail(new Error('response aborted')));
+            res.on('error', fail);
+
             res.on('end', () => {
+                let raw: unknown;
+                try {
+                    raw = JSON.parse(data);
+                } catch (error) {
+                    reject(new ResponseParseError('Failed to parse metrics response', {
+                        reason: (error as Error).message,
+                        bytes: data.length,
+                    }));
+                    return;
+                }
+
                 try {
-                    const parsed = JSON.parse(data) as MetricsResponse;
-                    resolve(parsed);
+                    resolve(parseMetricsResponse(raw, (issue) => log.warn(`Response drift: ${issue}`)));
                 } catch (error) {
-                    reject(new Error('Failed to parse metrics response'));
+                    reject(error);
                 }
             });
         });
 
-        req.on('error', (error) => {
-            reject(new Error(`Failed to fetch metrics: ${error.message}`));
-        });
+        req.on('error', fail);
 
-        req.setTimeout(10000, () => {
+        req.setTimeout(IDLE_TIMEOUT_MS, () => {
             req.destroy();
-            reject(new Error('Request timed out'));
+            reject(new RequestTimeoutError(IDLE_TIMEOUT_MS, { port: serverInfo.port }));
         });
 
+        // A server trickling bytes keeps the socket busy, so the idle timeout alone is not enough
+        const deadline = setTimeout(() => {
+            req.destroy();
+            reject(new RequestTimeoutError(REQUEST_DEADLINE_MS, { port: serverInfo.port }));
+        }, REQUEST_DEADLINE_MS);
+        req.on('close', () => clearTimeout(deadline));
+
         req.write(postData);
         req.end();
     });
@@ -211,6 +151,11 @@ export async function fetchMetrics(): Promise<MetricsResponse | null> {
  */
 export function formatResetTime(resetTime: string): string {
     const reset = new Date(resetTime);
+
+    // Missing or malformed reset times are shown as '--'
+    if (isNaN(reset.getTime())) {
+        return '--';
+    }
     const now = new Date();
     const diffMs = reset.getTime() - now.getTime();
 
@@ -236,6 +181,11 @@ export function formatResetTime(resetTime: string): string {
  */
 export function formatResetTimeAbsolute(resetTime: string): string {
     const reset = new Date(resetTime);
+
+    // Missing or malformed reset times are shown as '--'
+    if (isNaN(reset.getTime())) {
+        return '--';
+    }
     const now = new Date();
 
     if (reset.getTime() <= now.getTime()) {
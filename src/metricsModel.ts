@@ -0,0 +1,364 @@
+/**
+ * Metrics Domain Model
+ * Validates the raw GetUserStatus response and normalizes it into
+ * well-defined types with defaults, so renderers never see missing fields
+ */
+
+import { ResponseParseError } from './errors';
+
+export interface QuotaInfo {
+    remainingFraction: number;
+    resetTime: string;
+}
+
+export interface ModelConfig {
+    label: string;
+    modelOrAlias: { model: string };
+    quotaInfo?: QuotaInfo;
+    supportsImages: boolean;
+    isRecommended: boolean;
+    /** Teams tiers allowed to use the model, e.g. TEAMS_TIER_PRO */
+    allowedTiers: string[];
+    /** MIME types the model accepts as input */
+    supportedMimeTypes: string[];
+    /** Badge text such as "New" */
+    tagTitle?: string;
+}
+
+export interface ModelSortGroup {
+    modelLabels: string[];
+}
+
+export interface ModelSort {
+    name: string;
+    groups: ModelSortGroup[];
+}
+
+/** Boolean entitlements in planInfo, read by their response keys */
+export const PLAN_FEATURES = [
+    'cascadeWebSearchEnabled',
+    'browserEnabled',
+    'knowledgeBaseEnabled',
+    'canBuyMoreCredits',
+    'cascadeCanAutoRunCommands',
+    'canAllowCascadeInBackground',
+    'canGenerateCommitMessages',
+    'hasAutocompleteFastMode',
+    'hasTabToJump',
+    'allowStickyPremiumModels',
+    'allowPremiumCommandModels',
+    'canCustomizeAppIcon',
+] as const;
+
+/** Numeric limits in planInfo; -1 means unlimited */
+export const PLAN_LIMITS = [
+    'maxNumChatInputTokens',
+    'maxCustomChatInstructionCharacters',
+    'maxNumPremiumChatMessages',
+    'maxNumPinnedContextItems',
+    'maxLocalIndexSize',
+] as const;
+
+export type PlanFeature = typeof PLAN_FEATURES[number];
+export type PlanLimit = typeof PLAN_LIMITS[number];
+
+export interface PlanInfo extends Record<PlanFeature, boolean>, Partial<Record<PlanLimit, number>> {
+    planName: string;
+    teamsTier?: string;
+    monthlyPromptCredits: number;
+    monthlyFlowCredits: number;
+    monthlyFlexCreditPurchaseAmount?: number;
+    /** Policy defaults for team members, such as allowMcpServers */
+    defaultTeamConfig: Record<string, boolean>;
+}
+
+export interface PlanStatus {
+    planInfo: PlanInfo;
+    availablePromptCredits: number;
+    availableFlowCredits: number;
+}
+
+export interface UserTier {
+    id: string;
+    name: string;
+    description: string;
+    upgradeSubscriptionUri?: string;
+    upgradeSubscriptionText?: string;
+}
+
+export interface CascadeModelConfigData {
+    clientModelConfigs: ModelConfig[];
+    clientModelSorts: ModelSort[];
+    /** The model new conversations use by default */
+    defaultOverrideModelConfig?: { modelOrAlias: { model: string } };
+}
+
+export interface UserStatus {
+    name: string;
+    email: string;
+    planStatus: PlanStatus;
+    cascadeModelConfigData: CascadeModelConfigData;
+    userTier: UserTier;
+}
+
+export interface MetricsResponse {
+    userStatus: UserStatus;
+}
+
+/**
+ * Raised when the response is too malformed to be normalized
+ */
+export class ResponseValidationError extends ResponseParseError {
+    constructor(message: string) {
+        super(`Invalid metrics response: ${message}`);
+    }
+}
+
+/**
+ * Receives non-fatal problems (missing or mistyped fields replaced by defaults)
+ */
+export type IssueReporter = (message: string) => void;
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Small helpers that read a typed field, reporting and defaulting on mismatch
+ */
+class FieldReader {
+    constructor(private readonly _report: IssueReporter) { }
+
+    report(message: string): void {
+        this._report(message);
+    }
+
+    object(source: RawObject, key: string, path: string): RawObject {
+        const value = source[key];
+        if (isObject(value)) {
+            return value;
+        }
+        this._report(`${path}.${key} is ${value === undefined ? 'missing' : 'not an object'}`);
+        return {};
+    }
+
+    optionalObject(source: RawObject, key: string): RawObject | undefined {
+        const value = source[key];
+        return isObject(value) ? value : undefined;
+    }
+
+    string(source: RawObject, key: string, path: string, fallback: string = ''): string {
+        const value = source[key];
+        if (typeof value === 'string') {
+            return value;
+        }
+        if (value !== undefined) {
+            this._report(`${path}.${key} is not a string`);
+        }
+        return fallback;
+    }
+
+    optionalString(source: RawObject, key: string): string | undefined {
+        const value = source[key];
+        return typeof value === 'string' && value !== '' ? value : undefined;
+    }
+
+    /** Accepts numbers and numeric strings (int64 fields arrive as strings) */
+    number(source: RawObject, key: string, path: string, fallback: number = 0): number {
+        const parsed = this.optionalNumber(source, key);
+        if (parsed !== undefined) {
+            return parsed;
+        }
+        if (source[key] !== undefined) {
+            this._report(`${path}.${key} is not a number`);
+        }
+        return fallback;
+    }
+
+    optionalNumber(source: RawObject, key: string): number | undefined {
+        const value = source[key];
+        if (typeof value === 'number' && isFinite(value)) {
+            return value;
+        }
+        if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) {
+            return Number(value);
+        }
+        return undefined;
+    }
+
+    boolean(source: RawObject, key: string): boolean {
+        return source[key] === true;
+    }
+
+    array(source: RawObject, key: string, path: string): unknown[] {
+        const value = source[key];
+        if (Array.isArray(value)) {
+            return value;
+        }
+        if (value !== undefined) {
+            this._report(`${path}.${key} is not an array`);
+        }
+        return [];
+    }
+
+    stringArray(source: RawObject, key: string, path: string): string[] {
+        return this.array(source, key, path).filter((v): v is string => typeof v === 'string');
+    }
+}
+
+function parseQuotaInfo(read: FieldReader, raw: RawObject, path: string): QuotaInfo | undefined {
+    const quota = read.optionalObject(raw, 'quotaInfo');
+    if (!quota) {
+        return undefined;
+    }
+
+    // The server omits remainingFraction entirely once a model is exhausted
+    const remainingFraction = read.optionalNumber(quota, 'remainingFraction') ?? 0;
+    const resetTime = read.string(quota, 'resetTime', `${path}.quotaInfo`);
+
+    return {
+        remainingFraction: Math.min(1, Math.max(0, remainingFraction)),
+        resetTime,
+    };
+}
+
+function parseModelConfig(read: FieldReader, raw: unknown, path: string): ModelConfig | null {
+    if (!isObject(raw)) {
+        read.report(`${path} is not an object, skipped`);
+        return null;
+    }
+
+    const modelOrAlias = read.optionalObject(raw, 'modelOrAlias') ?? {};
+    const model = read.string(modelOrAlias, 'model', `${path}.modelOrAlias`);
+    const label = read.string(raw, 'label', path) || model;
+    if (!label) {
+        read.report(`${path} has neither a label nor a model ID, skipped`);
+        return null;
+    }
+
+    // supportedMimeTypes is a map of MIME type to true; responses restored
+    // from storage were already normalized to an array
+    const mimeMap = read.optionalObject(raw, 'supportedMimeTypes') ?? {};
+    const supportedMimeTypes = Array.isArray(raw.supportedMimeTypes)
+        ? read.stringArray(raw, 'supportedMimeTypes', path)
+        : Object.keys(mimeMap).filter((type) => mimeMap[type] === true);
+
+    return {
+        label,
+        // The model ID is the stable key for settings; fall back to the label
+        modelOrAlias: { model: model || label },
+        quotaInfo: parseQuotaInfo(read, raw, path),
+        supportsImages: read.boolean(raw, 'supportsImages'),
+        isRecommended: read.boolean(raw, 'isRecommended'),
+        allowedTiers: read.stringArray(raw, 'allowedTiers', path),
+        supportedMimeTypes,
+        tagTitle: read.optionalString(raw, 'tagTitle'),
+    };
+}
+
+function parseModelSorts(read: FieldReader, raw: RawObject, path: string): ModelSort[] {
+    return read
+        .array(raw, 'clientModelSorts', path)
+        .filter(isObject)
+        .map((sort, i) => ({
+            name: read.string(sort, 'name', `${path}.clientModelSorts[${i}]`),
+            groups: read
+                .array(sort, 'groups', `${path}.clientModelSorts[${i}]`)
+                .filter(isObject)
+                .map((group, j) => ({
+                    modelLabels: read.stringArray(
+                        group,
+                        'modelLabels',
+                        `${path}.clientModelSorts[${i}].groups[${j}]`
+                    ),
+                })),
+        }));
+}
+
+function parsePlanStatus(read: FieldReader, raw: RawObject): PlanStatus {
+    const path = 'userStatus.planStatus';
+    const plan = read.object(raw, 'planInfo', path);
+    const planPath = `${path}.planInfo`;
+
+    const features = Object.fromEntries(
+        PLAN_FEATURES.map((key) => [key, read.boolean(plan, key)])
+    ) as Record<PlanFeature, boolean>;
+    const limits: Partial<Record<PlanLimit, number>> = {};
+    for (const key of PLAN_LIMITS) {
+        limits[key] = read.optionalNumber(plan, key);
+    }
+    const teamConfig = read.optionalObject(plan, 'defaultTeamConfig') ?? {};
+
+    return {
+        planInfo: {
+            ...features,
+            ...limits,
+            planName: read.string(plan, 'planName', planPath, 'Unknown'),
+            teamsTier: read.optionalString(plan, 'teamsTier'),
+            monthlyPromptCredits: read.number(plan, 'monthlyPromptCredits', planPath),
+            monthlyFlowCredits: read.number(plan, 'monthlyFlowCredits', planPath),
+            monthlyFlexCreditPurchaseAmount: read.optionalNumber(plan, 'monthlyFlexCreditPurchaseAmount'),
+            defaultTeamConfig: Object.fromEntries(
+                Object.entries(teamConfig).filter((entry): entry is [string, boolean] => typeof entry[1] === 'boolean')
+            ),
+        },
+        availablePromptCredits: read.number(raw, 'availablePromptCredits', path),
+        availableFlowCredits: read.number(raw, 'availableFlowCredits', path),
+    };
+}
+
+/**
+ * Validate and normalize a parsed GetUserStatus response body.
+ * Throws ResponseValidationError only when there is no usable userStatus;
+ * everything else falls back to defaults and is passed to onIssue.
+ */
+export function parseMetricsResponse(raw: unknown, onIssue: IssueReporter = () => { }): MetricsResponse {
+    if (!isObject(raw)) {
+        throw new ResponseValidationError('expected a JSON object');
+    }
+    if (!isObject(raw.userStatus)) {
+        throw new ResponseValidationError('userStatus is missing');
+    }
+
+    const read = new FieldReader(onIssue);
+    const user = raw.userStatus;
+
+    const cascade = read.object(user, 'cascadeModelConfigData', 'userStatus');
+    const cascadePath = 'userStatus.cascadeModelConfigData';
+    const clientModelConfigs = read
+        .array(cascade, 'clientModelConfigs', cascadePath)
+        .map((entry, i) => parseModelConfig(read, entry, `${cascadePath}.clientModelConfigs[${i}]`))
+        .filter((m): m is ModelConfig => m !== null);
+
+    const defaultOverride = read.optionalObject(cascade, 'defaultOverrideModelConfig');
+    const defaultModel = defaultOverride
+        ? read.optionalString(read.optionalObject(defaultOverride, 'modelOrAlias') ?? {}, 'model')
+        : undefined;
+
+    const tier = read.object(user, 'userTier', 'userStatus');
+    const tierPath = 'userStatus.userTier';
+
+    return {
+        userStatus: {
+            name: read.string(user, 'name', 'userStatus'),
+            email: read.string(user, 'email', 'userStatus'),
+            planStatus: parsePlanStatus(read, read.object(user, 'planStatus', 'userStatus')),
+            cascadeModelConfigData: {
+                clientModelConfigs,
+                clientModelSorts: parseModelSorts(read, cascade, cascadePath),
+                defaultOverrideModelConfig: defaultModel
+                    ? { modelOrAlias: { model: defaultModel } }
+                    : undefined,
+            },
+            userTier: {
+                id: read.string(tier, 'id', tierPath),
+                name: read.string(tier, 'name', tierPath, 'Unknown tier'),
+                description: read.string(tier, 'description', tierPath),
+                upgradeSubscriptionUri: read.optionalString(tier, 'upgradeSubscriptionUri'),
+                upgradeSubscriptionText: read.optionalString(tier, 'upgradeSubscriptionText'),
+            },
+        },
+    };
+}
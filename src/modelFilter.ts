@@ -0,0 +1,72 @@
+/**
+ * Model Filtering
+ * Hides models the user never wants to see from every model list, based
+ * on the hiddenModels and onlyRecommended settings
+ */
+
+import * as vscode from 'vscode';
+import { ModelConfig } from './metricsModel';
+
+export interface ModelFilter {
+    /** Model IDs */
+    hidden: Set<string>;
+    onlyRecommended: boolean;
+}
+
+export function getModelFilter(): ModelFilter {
+    const config = vscode.workspace.getConfiguration('antigravityQuota');
+    return {
+        hidden: new Set(config.get<string[]>('hiddenModels', [])),
+        onlyRecommended: config.get<boolean>('onlyRecommended', false),
+    };
+}
+
+export function isModelVisible(model: ModelConfig, filter: ModelFilter = getModelFilter()): boolean {
+    return !filter.hidden.has(model.modelOrAlias.model) && (!filter.onlyRecommended || model.isRecommended);
+}
+
+export function filterModels(models: ModelConfig[], filter: ModelFilter = getModelFilter()): ModelConfig[] {
+    return models.filter((model) => isModelVisible(model, filter));
+}
+
+async function setHiddenModels(ids: string[]): Promise<void> {
+    await vscode.workspace
+        .getConfiguration('antigravityQuota')
+        .update('hiddenModels', [...new Set(ids)], vscode.ConfigurationTarget.Global);
+}
+
+export async function hideModel(modelId: string): Promise<void> {
+    await setHiddenModels([...getModelFilter().hidden, modelId]);
+}
+
+/**
+ * Let the user check the models to hide. IDs of models the server no longer
+ * reports are kept.
+ */
+export async function pickHiddenModels(models: ModelConfig[]): Promise<void> {
+    const hidden = getModelFilter().hidden;
+    const picked = await vscode.window.showQuickPick(
+        models.map((model) => ({
+            label: model.label,
+            description: model.isRecommended ? undefined : 'not recommended',
+            picked: hidden.has(model.modelOrAlias.model),
+            model,
+        })),
+        { canPickMany: true, placeHolder: 'Select the models to hide from the model lists' }
+    );
+    if (!picked) {
+        return;
+    }
+
+    const known = new Set(models.map((model) => model.modelOrAlias.model));
+    await setHiddenModels([
+        ...[...hidden].filter((id) => !known.has(id)),
+        ...picked.map((item) => item.model.modelOrAlias.model),
+    ]);
+}
+
+export async function toggleOnlyRecommended(): Promise<void> {
+    await vscode.workspace
+        .getConfiguration('antigravityQuota')
+        .update('onlyRecommended', !getModelFilter().onlyRecommended, vscode.ConfigurationTarget.Global);
+}
@@ -0,0 +1,128 @@
+/**
+ * Model Sorting and Grouping
+ * Orders the model lists in the sidebar, panel and tree. The chosen mode
+ * is remembered per user in global state.
+ */
+
+import * as vscode from 'vscode';
+import { ModelConfig, ModelSort } from './metricsModel';
+
+export type ModelSortMode = 'recommended' | 'provider' | 'remaining' | 'reset';
+
+export const MODEL_SORT_MODES: Record<ModelSortMode, { label: string; detail: string }> = {
+    recommended: { label: 'Recommended', detail: 'Grouped the way the server recommends' },
+    provider: { label: 'Provider', detail: 'Grouped by Claude, Gemini and GPT' },
+    remaining: { label: 'Remaining Quota', detail: 'Lowest remaining quota first' },
+    reset: { label: 'Soonest Reset', detail: 'Quotas that reset next first' },
+};
+
+export interface ModelGroup<T> {
+    /** Heading for the group; unnamed groups are only separated */
+    name?: string;
+    models: T[];
+}
+
+const SORT_MODE_KEY = 'antigravityQuota.modelSortMode';
+const PROVIDERS = ['Claude', 'Gemini', 'GPT'];
+
+/**
+ * Provider name derived from the model label, or 'Other'
+ */
+export function getProvider(model: ModelConfig): string {
+    const label = model.label.toLowerCase();
+    return PROVIDERS.find((provider) => label.includes(provider.toLowerCase())) ?? 'Other';
+}
+
+function byRemaining(a: ModelConfig, b: ModelConfig): number {
+    return (a.quotaInfo?.remainingFraction ?? Infinity) - (b.quotaInfo?.remainingFraction ?? Infinity);
+}
+
+function byReset(a: ModelConfig, b: ModelConfig): number {
+    const time = (m: ModelConfig) => {
+        const parsed = Date.parse(m.quotaInfo?.resetTime ?? '');
+        return isNaN(parsed) ? Infinity : parsed;
+    };
+    return time(a) - time(b);
+}
+
+/**
+ * Groups follow the "Recommended" sort from clientModelSorts (or the first
+ * sort the server sends); models it does not mention go last under "Other"
+ */
+function groupRecommended(models: ModelConfig[], sorts: ModelSort[]): ModelGroup<ModelConfig>[] {
+    const sort = sorts.find((s) => s.name.toLowerCase() === 'recommended') ?? sorts[0];
+    if (!sort) {
+        return [{ models }];
+    }
+
+    const placed = new Set<ModelConfig>();
+    const groups: ModelGroup<ModelConfig>[] = [];
+    for (const group of sort.groups) {
+        const grouped = group.modelLabels
+            .map((label) => models.find((m) => m.label === label && !placed.has(m)))
+            .filter((m): m is ModelConfig => m !== undefined);
+        grouped.forEach((m) => placed.add(m));
+        if (grouped.length > 0) {
+            groups.push({ models: grouped });
+        }
+    }
+
+    const rest = models.filter((m) => !placed.has(m));
+    if (rest.length > 0) {
+        groups.push(groups.length > 0 ? { name: 'Other', models: rest } : { models: rest });
+    }
+    return groups;
+}
+
+function groupByProvider(models: ModelConfig[]): ModelGroup<ModelConfig>[] {
+    return [...PROVIDERS, 'Other']
+        .map((name) => ({ name, models: models.filter((m) => getProvider(m) === name) }))
+        .filter((group) => group.models.length > 0);
+}
+
+/**
+ * Split and order models for display. Sorting keeps response order for ties.
+ */
+export function groupModels(
+    models: ModelConfig[],
+    sorts: ModelSort[],
+    mode: ModelSortMode
+): ModelGroup<ModelConfig>[] {
+    switch (mode) {
+        case 'provider':
+            return groupByProvider(models);
+        case 'remaining':
+            return [{ models: [...models].sort(byRemaining) }];
+        case 'reset':
+            return [{ models: [...models].sort(byReset) }];
+        default:
+            return groupRecommended(models, sorts);
+    }
+}
+
+export function getModelSortMode(memento: vscode.Memento): ModelSortMode {
+    const stored = memento.get<unknown>(SORT_MODE_KEY);
+    // Compare against the modes themselves; `in` would accept "toString" and friends
+    return (Object.keys(MODEL_SORT_MODES) as ModelSortMode[]).find((mode) => mode === stored) ?? 'recommended';
+}
+
+/**
+ * Ask for a sort mode and remember it. Returns true when it changed.
+ */
+export async function pickModelSortMode(memento: vscode.Memento): Promise<boolean> {
+    const current = getModelSortMode(memento);
+    const picked = await vscode.window.showQuickPick(
+        (Object.keys(MODEL_SORT_MODES) as ModelSortMode[]).map((mode) => ({
+            label: MODEL_SORT_MODES[mode].label,
+            detail: MODEL_SORT_MODES[mode].detail,
+            description: mode === current ? 'current' : undefined,
+            mode,
+        })),
+        { placeHolder: 'Sort and group the model list by...' }
+    );
+    if (!picked || picked.mode === current) {
+        return false;
+    }
+    await memento.update(SORT_MODE_KEY, picked.mode);
+    return true;
+}
@@ -0,0 +1,186 @@
+/**
+ * Polling Scheduler
+ * Runs the refresh task on an interval, pausing while nobody is looking,
+ * slowing down while only the status bar is, and backing off exponentially
+ * after consecutive failures
+ */
+
+import * as vscode from 'vscode';
+import { log } from './logger';
+
+/**
+ * A refresh task resolves to true on success and false on failure.
+ * It should stop early once the signal is aborted.
+ */
+export type PollingTask = (signal: AbortSignal) => Promise<boolean>;
+
+export interface PollingOptions {
+    /** Base interval between refreshes in milliseconds; 0 disables polling */
+    intervalMs: number;
+    /** Interval in background mode; never shorter than intervalMs */
+    backgroundIntervalMs: number;
+    /** Upper bound for the backoff delay in milliseconds */
+    maxBackoffMs: number;
+}
+
+export class PollingScheduler implements vscode.Disposable {
+    private _options: PollingOptions;
+    private _timer: NodeJS.Timeout | undefined;
+    private _inFlight: Promise<boolean> | null = null;
+    private _abortController: AbortController | null = null;
+    private _consecutiveFailures = 0;
+    private _paused = true;
+    private _background = false;
+    private _lastRunTime = 0;
+    private _disposed = false;
+
+    constructor(private readonly _task: PollingTask, options: PollingOptions) {
+        this._options = options;
+    }
+
+    public get consecutiveFailures(): number {
+        return this._consecutiveFailures;
+    }
+
+    public get isRunning(): boolean {
+        return this._inFlight !== null;
+    }
+
+    /**
+     * Run the task now. If a run is already in progress, the caller
+     * joins it instead of starting a second fetch.
+     */
+    public runNow(): Promise<boolean> {
+        if (this._inFlight) {
+            return this._inFlight;
+        }
+
+        this._clearTimer();
+        this._inFlight = this._execute();
+        return this._inFlight;
+    }
+
+    /**
+     * Abort the run in progress, if any. A cancelled run does not count
+     * as a failure for backoff purposes.
+     */
+    public cancel(): void {
+        this._abortController?.abort();
+    }
+
+    /**
+     * Pause or resume automatic polling. Resuming runs the task at once
+     * if the data is older than the current delay.
+     */
+    public setPaused(paused: boolean): void {
+        if (this._paused === paused) {
+            return;
+        }
+        this._paused = paused;
+
+        if (paused) {
+            this._clearTimer();
+            return;
+        }
+        this._scheduleFromLastRun();
+    }
+
+    /**
+     * Switch to or from the longer background interval. The next run is
+     * rescheduled relative to the last one.
+     */
+    public setBackground(background: boolean): void {
+        if (this._background === background) {
+            return;
+        }
+        this._background = background;
+        if (!this._paused && !this._inFlight) {
+            this._scheduleFromLastRun();
+        }
+    }
+
+    public updateOptions(options: PollingOptions): void {
+        this._options = options;
+        if (!this._inFlight) {
+            this._schedule(this._currentDelay());
+        }
+    }
+
+    private async _execute(): Promise<boolean> {
+        const controller = new AbortController();
+        this._abortController = controller;
+
+        let success = false;
+        try {
+            success = await this._task(controller.signal);
+        } catch {
+            success = false;
+        }
+
+        if (!controller.signal.aborted) {
+            this._consecutiveFailures = success ? 0 : this._consecutiveFailures + 1;
+            this._lastRunTime = Date.now();
+        }
+        this._abortController = null;
+        this._inFlight = null;
+        this._schedule(this._currentDelay());
+        return success;
+    }
+
+    /**
+     * Run at once if the data is older than the current delay, otherwise
+     * schedule the rest of the delay
+     */
+    private _scheduleFromLastRun(): void {
+        const elapsed = Date.now() - this._lastRunTime;
+        const delay = this._currentDelay();
+        if (delay > 0 && elapsed >= delay) {
+            void this.runNow();
+        } else {
+            this._schedule(delay - elapsed);
+        }
+    }
+
+    /**
+     * Base interval doubled for each consecutive failure, capped at maxBackoffMs
+     */
+    private _currentDelay(): number {
+        const { intervalMs, backgroundIntervalMs, maxBackoffMs } = this._options;
+        if (intervalMs <= 0) {
+            return 0;
+        }
+        const baseMs = this._background ? Math.max(intervalMs, backgroundIntervalMs) : intervalMs;
+        if (this._consecutiveFailures === 0) {
+            return baseMs;
+        }
+
+        const backoff = baseMs * Math.pow(2, this._consecutiveFailures);
+        return Math.min(backoff, Math.max(baseMs, maxBackoffMs));
+    }
+
+    private _schedule(delayMs: number): void {
+        this._clearTimer();
+        if (this._disposed || this._paused || this._options.intervalMs <= 0) {
+            return;
+        }
+
+        log.trace(`Next automatic refresh in ${Math.round(Math.max(0, delayMs) / 1000)}s`);
+        this._timer = setTimeout(() => {
+            this._timer = undefined;
+            void this.runNow();
+        }, Math.max(0, delayMs));
+    }
+
+    private _clearTimer(): void {
+        if (this._timer) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+    }
+
+    public dispose(): void {
+        this._disposed = true;
+        this._clearTimer();
+        this.cancel();
+    }
+}
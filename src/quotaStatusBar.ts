@@ -0,0 +1,170 @@
+/**
+ * Status Bar Item for Quota Display
+ * Shows the hero model closest to exhaustion (or a chosen model) at a glance
+ */
+
+import * as vscode from 'vscode';
+import { formatResetTime, getQuotaColor } from './metricsClient';
+import { MetricsResponse, ModelConfig } from './metricsModel';
+import { QuotaError } from './errors';
+import { resolveHeroModels } from './heroModels';
+import { filterModels } from './modelFilter';
+
+export class QuotaStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+    private _data: MetricsResponse | null = null;
+    private _error: QuotaError | null = null;
+
+    constructor() {
+        this._item = vscode.window.createStatusBarItem(
+            'antigravityQuota.status',
+            vscode.StatusBarAlignment.Right,
+            100
+        );
+        this._item.name = 'Antigravity Quota';
+        this._item.command = 'antigravity-quota.showDetails';
+        this._render();
+    }
+
+    /**
+     * Whether the item is currently shown. It keeps polling alive on its own,
+     * at a slower interval than the views.
+     */
+    public get isVisible(): boolean {
+        return vscode.workspace.getConfiguration('antigravityQuota').get<boolean>('showStatusBar', true);
+    }
+
+    public setLoading(): void {
+        if (!this._data) {
+            this._item.text = '$(sync~spin) Quota';
+            this._item.tooltip = 'Loading Antigravity quotas...';
+        }
+    }
+
+    public update(data?: MetricsResponse, error?: QuotaError): void {
+        if (data) {
+            this._data = data;
+        }
+        this._error = error ?? null;
+        this._render();
+    }
+
+    /**
+     * Re-render with the current settings
+     */
+    public refreshSettings(): void {
+        this._render();
+    }
+
+    private _render(): void {
+        const config = vscode.workspace.getConfiguration('antigravityQuota');
+        if (!config.get<boolean>('showStatusBar', true)) {
+            this._item.hide();
+            return;
+        }
+
+        this._item.color = undefined;
+        this._item.backgroundColor = undefined;
+
+        if (this._error && !this._data) {
+            this._item.text = '$(warning) Quota';
+            this._item.tooltip = `Antigravity Quota: ${this._error.message}`;
+            this._item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            this._item.show();
+            return;
+        }
+
+        if (!this._data) {
+            this._item.text = '$(dashboard) Quota';
+            this._item.tooltip = 'Antigravity Quota: no data yet';
+            this._item.show();
+            return;
+        }
+
+        const models = this._data.userStatus.cascadeModelConfigData.clientModelConfigs;
+        const model = this._pickModel(models, config.get<string>('statusBarModel', ''));
+        if (!model?.quotaInfo) {
+            this._item.text = '$(dashboard) Quota';
+        } else {
+            const percentage = Math.round(model.quotaInfo.remainingFraction * 100);
+            this._item.text = `$(dashboard) ${model.label} ${percentage}%`;
+
+            const color = getQuotaColor(model.quotaInfo.remainingFraction);
+            if (color === 'red') {
+                this._item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+            } else {
+                this._item.color = new vscode.ThemeColor(color === 'green' ? 'charts.green' : 'charts.yellow');
+            }
+        }
+
+        this._item.tooltip = this._buildTooltip(filterModels(models));
+        this._item.show();
+    }
+
+    /**
+     * The configured model if it has quota, otherwise the hero model with
+     * the least remaining quota
+     */
+    private _pickModel(models: ModelConfig[], preferred: string): ModelConfig | undefined {
+        if (preferred) {
+            const byId = models.find(m => m.quotaInfo && m.modelOrAlias.model === preferred);
+            if (byId) {
+                return byId;
+            }
+            // Older settings hold a label, which changes with the model name
+            const byLabel = models.find(m =>
+                m.quotaInfo && m.label.toLowerCase() === preferred.toLowerCase()
+            );
+            if (byLabel) {
+                this._migrateModelSetting(byLabel);
+                return byLabel;
+            }
+        }
+
+        return resolveHeroModels(models).reduce<ModelConfig | undefined>((lowest, m) =>
+            !lowest || m.quotaInfo!.remainingFraction < lowest.quotaInfo!.remainingFraction ? m : lowest,
+            undefined
+        );
+    }
+
+    /**
+     * Replace a label in statusBarModel with the model ID, where it was set
+     */
+    private _migrateModelSetting(model: ModelConfig): void {
+        const config = vscode.workspace.getConfiguration('antigravityQuota');
+        const inspected = config.inspect<string>('statusBarModel');
+        const target = inspected?.workspaceFolderValue !== undefined
+            ? vscode.ConfigurationTarget.WorkspaceFolder
+            : inspected?.workspaceValue !== undefined
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+        void config.update('statusBarModel', model.modelOrAlias.model, target);
+    }
+
+    private _buildTooltip(models: ModelConfig[]): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString(undefined, true);
+        tooltip.appendMarkdown('**Antigravity Quota**\n\n');
+        tooltip.appendMarkdown('| Model | Remaining | Resets in |\n|:--|--:|--:|\n');
+
+        for (const model of models) {
+            if (!model.quotaInfo) {
+                continue;
+            }
+            const percentage = Math.round(model.quotaInfo.remainingFraction * 100);
+            const color = getQuotaColor(model.quotaInfo.remainingFraction);
+            const icon = color === 'green' ? '$(pass-filled)' : color === 'yellow' ? '$(warning)' : '$(error)';
+            const label = model.label.replace(/[|\\`*_[\]]/g, '\\$&');
+            tooltip.appendMarkdown(`| ${icon} ${label} | ${percentage}% | ${formatResetTime(model.quotaInfo.resetTime)} |\n`);
+        }
+
+        if (this._error) {
+            tooltip.appendMarkdown(`\n$(warning) Last refresh failed: ${this._error.message}\n`);
+        }
+        tooltip.appendMarkdown('\n_Click to open quota details_');
+        return tooltip;
+    }
+
+    public dispose(): void {
+        this._item.dispose();
+    }
+}
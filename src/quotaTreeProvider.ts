@@ -1,14 +1,18 @@
 /**
  * Tree View Provider for Quota Display
+ * Native alternative to the sidebar webview for screen readers and
+ * low-resource setups
  */
 
 import * as vscode from 'vscode';
-import {
-    MetricsResponse,
-    ModelConfig,
-    formatResetTime,
-    getQuotaColor,
-} from './metricsClient';
+import { formatResetTime, formatResetTimeAbsolute, getQuotaColor } from './metricsClient';
+import { MetricsResponse, ModelConfig } from './metricsModel';
+import { QuotaError } from './errors';
+import { HistoryStore } from './historyStore';
+import { describeForecast, forecastModel, formatExhaustion } from './forecast';
+import { formatResetTimeByPreference } from './viewModel';
+import { getModelSortMode, groupModels } from './modelSort';
+import { filterModels } from './modelFilter';
 
 export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<QuotaTreeItem | undefined | null | void> =
@@ -17,23 +21,46 @@ export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeItem>
         this._onDidChangeTreeData.event;
 
     private metricsData: MetricsResponse | null = null;
-    private error: string | null = null;
+    private error: QuotaError | null = null;
     private isLoading: boolean = false;
 
-    constructor() { }
+    constructor(
+        private readonly _history: HistoryStore,
+        /** Global state holding the model sort mode */
+        private readonly _globalState: vscode.Memento
+    ) { }
 
-    refresh(data?: MetricsResponse, error?: string): void {
-        this.metricsData = data ?? null;
+    /**
+     * Same contract as the sidebar: a failed refresh keeps the last good
+     * data below an error item
+     */
+    refresh(data?: MetricsResponse, error?: QuotaError): void {
+        if (data) {
+            this.metricsData = data;
+        }
         this.error = error ?? null;
         this.isLoading = false;
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Only an empty tree shows the loading item; existing data stays put
+     */
     setLoading(): void {
+        if (this.metricsData) {
+            return;
+        }
         this.isLoading = true;
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Re-render after settings that affect formatting change
+     */
+    refreshSettings(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
     getTreeItem(element: QuotaTreeItem): vscode.TreeItem {
         return element;
     }
@@ -50,15 +77,8 @@ export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeItem>
             ]);
         }
 
-        if (this.error) {
-            return Promise.resolve([
-                new QuotaTreeItem(
-                    'Error',
-                    this.error,
-                    vscode.TreeItemCollapsibleState.None,
-                    'error'
-                ),
-            ]);
+        if (this.error && !this.metricsData) {
+            return Promise.resolve([this.createErrorItem(this.error)]);
         }
 
         if (!this.metricsData) {
@@ -76,16 +96,20 @@ export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeItem>
             // Root level - show categories
             const items: QuotaTreeItem[] = [];
 
+            if (this.error) {
+                items.push(this.createErrorItem(this.error));
+            }
+
             // User info header
             const userStatus = this.metricsData.userStatus;
-            items.push(
-                new QuotaTreeItem(
-                    `👤 ${userStatus.name}`,
-                    `${userStatus.userTier.name} • ${userStatus.email}`,
-                    vscode.TreeItemCollapsibleState.None,
-                    'user'
-                )
+            const user = new QuotaTreeItem(
+                `👤 ${userStatus.name}`,
+                `${userStatus.userTier.name} • ${userStatus.email}`,
+                vscode.TreeItemCollapsibleState.None,
+                'user'
             );
+            user.tooltip = `${userStatus.name} (${userStatus.email}), ${userStatus.userTier.name}`;
+            items.push(user);
 
             // Credits section
             items.push(
@@ -114,45 +138,88 @@ export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeItem>
         if (element.contextValue === 'credits-header') {
             const planStatus = this.metricsData.userStatus.planStatus;
             return Promise.resolve([
-                new QuotaTreeItem(
-                    `Prompt Credits: ${planStatus.availablePromptCredits.toLocaleString()}`,
-                    `of ${planStatus.planInfo.monthlyPromptCredits.toLocaleString()} monthly`,
-                    vscode.TreeItemCollapsibleState.None,
-                    'credit'
-                ),
-                new QuotaTreeItem(
-                    `Flow Credits: ${planStatus.availableFlowCredits.toLocaleString()}`,
-                    `of ${planStatus.planInfo.monthlyFlowCredits.toLocaleString()} monthly`,
-                    vscode.TreeItemCollapsibleState.None,
-                    'credit'
-                ),
+                this.createCreditItem('Prompt Credits', planStatus.availablePromptCredits, planStatus.planInfo.monthlyPromptCredits),
+                this.createCreditItem('Flow Credits', planStatus.availableFlowCredits, planStatus.planInfo.monthlyFlowCredits),
             ]);
         }
 
         if (element.contextValue === 'models-header') {
-            const models = this.metricsData.userStatus.cascadeModelConfigData.clientModelConfigs;
-            return Promise.resolve(
-                models.map((model) => this.createModelItem(model))
+            const cascade = this.metricsData.userStatus.cascadeModelConfigData;
+            const groups = groupModels(
+                filterModels(cascade.clientModelConfigs),
+                cascade.clientModelSorts,
+                getModelSortMode(this._globalState)
             );
+            // Named groups become folders; unnamed ones are listed in sequence
+            return Promise.resolve(groups.flatMap((group) => {
+                if (!group.name) {
+                    return group.models.map((model) => this.createModelItem(model));
+                }
+                const item = new QuotaTreeItem(
+                    group.name,
+                    `${group.models.length}`,
+                    vscode.TreeItemCollapsibleState.Expanded,
+                    'model-group'
+                );
+                item.models = group.models;
+                return [item];
+            }));
+        }
+
+        if (element.contextValue === 'model-group') {
+            return Promise.resolve((element.models ?? []).map((model) => this.createModelItem(model)));
         }
 
         return Promise.resolve([]);
     }
 
+    /**
+     * The first recovery action runs when the item is activated
+     */
+    private createErrorItem(error: QuotaError): QuotaTreeItem {
+        const item = new QuotaTreeItem(
+            error.title,
+            error.message,
+            vscode.TreeItemCollapsibleState.None,
+            'error'
+        );
+        item.tooltip = `${error.message}\n\n${error.hint}`;
+        const action = error.actions[0];
+        if (action) {
+            item.command = { title: action.label, command: action.command };
+        }
+        return item;
+    }
+
+    private createCreditItem(label: string, available: number, monthly: number): QuotaTreeItem {
+        const item = new QuotaTreeItem(
+            `${label}: ${available.toLocaleString()}`,
+            `of ${monthly.toLocaleString()} monthly`,
+            vscode.TreeItemCollapsibleState.None,
+            'credit'
+        );
+        item.tooltip = `${label}: ${available.toLocaleString()} of ${monthly.toLocaleString()} monthly credits left`;
+        return item;
+    }
+
     private createModelItem(model: ModelConfig): QuotaTreeItem {
         const quota = model.quotaInfo;
+        const modelId = model.modelOrAlias.model;
 
         if (!quota) {
-            return new QuotaTreeItem(
+            const item = new QuotaTreeItem(
                 model.label,
                 'No quota info',
                 vscode.TreeItemCollapsibleState.None,
                 'model'
             );
+            item.modelId = modelId;
+            item.tooltip = `${model.label}: no quota info`;
+            return item;
         }
 
         const percentage = Math.round(quota.remainingFraction * 100);
-        const resetTimeStr = formatResetTime(quota.resetTime);
+        const resetTimeStr = formatResetTimeByPreference(quota.resetTime);
         const color = getQuotaColor(quota.remainingFraction);
 
         // Create a visual block progress bar (10 steps)
@@ -165,15 +232,24 @@ export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeItem>
         // Determine status color icon
         const statusEmoji = color === 'green' ? '🟢' : color === 'yellow' ? '🟡' : '🔴';
 
+        const forecast = forecastModel(this._history.snapshots, model);
+        const runsOut = forecast?.runsOutBeforeReset ?? false;
+
         const item = new QuotaTreeItem(
             `${model.label}`,
-            `${progressBar}  ${percentage}% · ⏱ ${resetTimeStr}`,
+            `${progressBar}  ${percentage}% · ⏱ ${resetTimeStr}${runsOut ? ` · ⚠ ${formatExhaustion(forecast!)}` : ''}`,
             vscode.TreeItemCollapsibleState.None,
             'model'
         );
+        item.modelId = modelId;
+        // Plain sentences, read out by screen readers and copied by "Copy Details"
+        item.tooltip = `${model.label}: ${percentage}% remaining. Resets in ${formatResetTime(quota.resetTime)} (${formatResetTimeAbsolute(quota.resetTime)}).` +
+            (forecast ? ` ${describeForecast(forecast)}` : '');
 
         // Set icon path based on color for the tree item icon
-        if (color === 'green') {
+        if (runsOut) {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.red'));
+        } else if (color === 'green') {
             item.iconPath = new vscode.ThemeIcon('circle-large-filled', new vscode.ThemeColor('charts.green'));
         } else if (color === 'yellow') {
             item.iconPath = new vscode.ThemeIcon('circle-large-filled', new vscode.ThemeColor('charts.yellow'));
@@ -186,6 +262,11 @@ export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeItem>
 }
 
 export class QuotaTreeItem extends vscode.TreeItem {
+    /** Set on 'model' items; commands receive the item and read it */
+    public modelId?: string;
+    /** Children of a 'model-group' item */
+    public models?: ModelConfig[];
+
     constructor(
         public readonly label: string,
         public readonly description: string,
@@ -216,6 +297,9 @@ export class QuotaTreeItem extends vscode.TreeItem {
             case 'models-header':
                 this.iconPath = new vscode.ThemeIcon('hubot');
                 break;
+            case 'model-group':
+                this.iconPath = new vscode.ThemeIcon('folder');
+                break;
             case 'credit':
                 this.iconPath = new vscode.ThemeIcon('sparkle');
                 break;
@@ -0,0 +1,140 @@
+/**
+ * Reset Scheduler
+ * Arms a timer for each upcoming quota reset so the data is refetched the
+ * moment a model becomes usable again, and optionally announces the reset
+ */
+
+import * as vscode from 'vscode';
+import { MetricsResponse, ModelConfig } from './metricsModel';
+import { log } from './logger';
+
+/** setTimeout overflows beyond a signed 32-bit delay */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+/** Give the server a moment to roll the quota over before refetching */
+const RESET_GRACE_MS = 5 * 1000;
+/** If the refetch still shows the old cycle, try once more after this delay */
+const RESET_RETRY_MS = 60 * 1000;
+
+export class ResetScheduler implements vscode.Disposable {
+    private readonly _timers = new Map<string, NodeJS.Timeout>();
+    /** Models below 100% when their reset timer fired, by model ID */
+    private readonly _awaitingReset = new Map<string, number>();
+    /** Reset times already retried once, so a lagging server cannot cause a loop */
+    private readonly _retried = new Set<string>();
+
+    /**
+     * @param _refetch Called when a reset time is reached
+     */
+    constructor(private readonly _refetch: () => void) { }
+
+    /**
+     * Re-arm the timers from a fresh response and announce models whose
+     * quota came back since the last reset timer fired
+     */
+    public update(data: MetricsResponse): void {
+        const models = data.userStatus.cascadeModelConfigData.clientModelConfigs;
+        this._announceResets(models);
+        this._clearTimers();
+
+        const now = Date.now();
+        const byResetTime = new Map<string, ModelConfig[]>();
+        for (const model of models) {
+            // A full model has nothing to wait for
+            if (!model.quotaInfo || model.quotaInfo.remainingFraction >= 1) {
+                continue;
+            }
+            const resetTime = model.quotaInfo.resetTime;
+            if (isNaN(Date.parse(resetTime))) {
+                continue;
+            }
+            byResetTime.set(resetTime, [...(byResetTime.get(resetTime) ?? []), model]);
+        }
+
+        for (const [resetTime, waiting] of byResetTime) {
+            let fireAt = Date.parse(resetTime) + RESET_GRACE_MS;
+            if (fireAt <= now) {
+                // The reset has passed but the server still reports the old cycle
+                if (this._retried.has(resetTime)) {
+                    continue;
+                }
+                this._retried.add(resetTime);
+                fireAt = now + RESET_RETRY_MS;
+            }
+            this._arm(resetTime, fireAt, waiting);
+        }
+
+        for (const resetTime of this._retried) {
+            if (!byResetTime.has(resetTime)) {
+                this._retried.delete(resetTime);
+            }
+        }
+    }
+
+    private _arm(resetTime: string, fireAt: number, models: ModelConfig[]): void {
+        const delay = Math.min(MAX_TIMER_MS, Math.max(0, fireAt - Date.now()));
+        log.trace(`Reset timer for ${models.length} model(s) in ${Math.round(delay / 1000)}s`);
+
+        this._timers.set(resetTime, setTimeout(() => {
+            this._timers.delete(resetTime);
+
+            // Delays longer than the timer limit are reached in several hops
+            if (fireAt > Date.now()) {
+                this._arm(resetTime, fireAt, models);
+                return;
+            }
+
+            for (const model of models) {
+                this._awaitingReset.set(model.modelOrAlias.model, model.quotaInfo!.remainingFraction);
+            }
+            log.info(`Quota reset time reached for ${models.map((m) => m.label).join(', ')}; refreshing`);
+            this._refetch();
+        }, delay));
+    }
+
+    private _announceResets(models: ModelConfig[]): void {
+        if (this._awaitingReset.size === 0) {
+            return;
+        }
+
+        const reset: ModelConfig[] = [];
+        for (const model of models) {
+            const before = this._awaitingReset.get(model.modelOrAlias.model);
+            if (before === undefined || !model.quotaInfo) {
+                continue;
+            }
+            if (model.quotaInfo.remainingFraction > before) {
+                reset.push(model);
+            }
+        }
+        // Models that have not reset yet are re-added if their retry timer fires
+        this._awaitingReset.clear();
+
+        const notify = vscode.workspace
+            .getConfiguration('antigravityQuota')
+            .get<boolean>('notifyOnReset', true);
+        if (!notify || reset.length === 0) {
+            return;
+        }
+
+        const names = reset.map((m) => m.label);
+        const message = names.length === 1
+            ? `${names[0]} quota has reset`
+            : `Quota has reset for ${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+        vscode.window.showInformationMessage(message, 'Show Details').then((choice) => {
+            if (choice) {
+                vscode.commands.executeCommand('antigravity-quota.showDetails');
+            }
+        });
+    }
+
+    private _clearTimers(): void {
+        for (const timer of this._timers.values()) {
+            clearTimeout(timer);
+        }
+        this._timers.clear();
+    }
+
+    public dispose(): void {
+        this._clearTimers();
+    }
+}
@@ -0,0 +1,587 @@
+/**
+ * Language Server Discovery
+ * Platform-specific strategies for locating the Antigravity Language Server
+ * process, its CSRF token and the port serving the metrics API
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { promisify } from 'util';
+import {
+    CsrfTokenMissingError,
+    NoListeningPortsError,
+    PortsRejectedError,
+    ProcessNotFoundError,
+    QuotaError,
+    RequestCancelledError,
+    ServerNotSelectedError,
+    UnexpectedError,
+} from './errors';
+import { log, maskSecret } from './logger';
+
+const execFileAsync = promisify(execFile);
+
+export const USER_STATUS_PATH = '/exa.language_server_pb.LanguageServerService/GetUserStatus';
+
+/** Reads of /proc in flight at once, so busy hosts do not run out of file descriptors */
+const PROC_READ_CONCURRENCY = 32;
+/** A process that exited or belongs to another user; anything else is a real failure */
+const SKIPPED_PROC_ERRORS = ['ENOENT', 'EACCES', 'ESRCH'];
+
+export interface ServerInfo {
+    pid: string;
+    token: string;
+    port: string;
+    /** Defaults to 127.0.0.1 */
+    host?: string;
+    /** Defaults to USER_STATUS_PATH */
+    rpcPath?: string;
+}
+
+export interface ProcessCandidate {
+    pid: string;
+    commandLine: string;
+}
+
+export interface DiscoveryOptions {
+    /** File system paths of the folders open in this window */
+    workspaceFolders?: string[];
+    /**
+     * Called when the candidates cannot be matched to the workspace with
+     * certainty; resolving to undefined fails discovery rather than guessing
+     */
+    chooseCandidate?: (candidates: ProcessCandidate[]) => Promise<ProcessCandidate | undefined>;
+    provider?: DiscoveryProvider;
+}
+
+/**
+ * A platform strategy for finding language server processes and their ports
+ */
+export interface DiscoveryProvider {
+    readonly name: string;
+    findProcesses(signal?: AbortSignal): Promise<ProcessCandidate[]>;
+    findListeningPorts(pid: string, signal?: AbortSignal): Promise<string[]>;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new RequestCancelledError();
+    }
+}
+
+/**
+ * Whether a command line belongs to an Antigravity language server
+ */
+function isLanguageServer(commandLine: string): boolean {
+    return /language_server/.test(commandLine) && /csrf_token/.test(commandLine);
+}
+
+/**
+ * Extract the CSRF token from a language server command line
+ */
+export function extractCsrfToken(commandLine: string): string | null {
+    const match = commandLine.match(/--csrf_token[=\s]+([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Extract the workspace ID the language server was started for
+ */
+export function extractWorkspaceId(commandLine: string): string | null {
+    const match = commandLine.match(/--workspace_id[=\s]+(\S+)/);
+    return match ? match[1] : null;
+}
+
+/**
+ * The IDE replaces path separators and hyphens in workspace IDs, so compare
+ * both sides with every non-alphanumeric character folded to an underscore
+ */
+function normalizeWorkspaceKey(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Find the candidates whose workspace ID matches one of the open folders.
+ * Full path matches are preferred over folder name matches.
+ */
+export function matchWorkspaceCandidates(
+    candidates: ProcessCandidate[],
+    workspaceFolders: string[]
+): ProcessCandidate[] {
+    const folders = workspaceFolders.map((folder) => ({
+        full: normalizeWorkspaceKey(folder),
+        name: normalizeWorkspaceKey(folder.split(/[\\/]/).filter(Boolean).pop() ?? ''),
+    }));
+
+    const withIds = candidates
+        .map((candidate) => ({ candidate, id: extractWorkspaceId(candidate.commandLine) }))
+        .filter((entry): entry is { candidate: ProcessCandidate; id: string } => entry.id !== null)
+        .map((entry) => ({ ...entry, id: normalizeWorkspaceKey(entry.id) }));
+
+    const fullMatches = withIds.filter(({ id }) =>
+        folders.some((f) => f.full && id.endsWith(f.full))
+    );
+    if (fullMatches.length > 0) {
+        return fullMatches.map((entry) => entry.candidate);
+    }
+
+    return withIds
+        .filter(({ id }) => folders.some((f) => f.name && (id === f.name || id.endsWith(`_${f.name}`))))
+        .map((entry) => entry.candidate);
+}
+
+/**
+ * Pick the language server belonging to this window, asking the user when
+ * the match is ambiguous. Another window's server is never picked silently.
+ */
+async function selectCandidate(
+    candidates: ProcessCandidate[],
+    options: DiscoveryOptions
+): Promise<ProcessCandidate> {
+    if (candidates.length === 1) {
+        return candidates[0];
+    }
+
+    const matches = matchWorkspaceCandidates(candidates, options.workspaceFolders ?? []);
+    if (matches.length === 1) {
+        return matches[0];
+    }
+
+    const offered = matches.length > 0 ? matches : candidates;
+    const chosen = options.chooseCandidate ? await options.chooseCandidate(offered) : undefined;
+    if (!chosen) {
+        throw new ServerNotSelectedError({ candidates: offered.map((c) => c.pid).join(', ') });
+    }
+    return chosen;
+}
+
+function isSkippedProcError(error: unknown): boolean {
+    return SKIPPED_PROC_ERRORS.includes((error as NodeJS.ErrnoException).code ?? '');
+}
+
+/**
+ * Run fn over items with at most `limit` calls in flight, keeping order
+ */
+async function mapLimited<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            throwIfCancelled(signal);
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Linux: read /proc directly, no external binaries required
+ */
+export class LinuxProcDiscovery implements DiscoveryProvider {
+    readonly name = 'linux-procfs';
+
+    async findProcesses(signal?: AbortSignal): Promise<ProcessCandidate[]> {
+        const entries = (await fs.readdir('/proc')).filter((entry) => /^\d+$/.test(entry));
+        throwIfCancelled(signal);
+
+        const results = await mapLimited(entries, PROC_READ_CONCURRENCY, async (pid): Promise<ProcessCandidate | null> => {
+            try {
+                // Arguments are NUL-separated
+                const raw = await fs.readFile(`/proc/${pid}/cmdline`, 'utf-8');
+                const commandLine = raw.split('\0').join(' ').trim();
+                return isLanguageServer(commandLine) ? { pid, commandLine } : null;
+            } catch (error) {
+                if (isSkippedProcError(error)) {
+                    // Process exited or is not readable
+                    return null;
+                }
+                throw error;
+            }
+        }, signal);
+        throwIfCancelled(signal);
+
+        return results.filter((c): c is ProcessCandidate => c !== null);
+    }
+
+    async findListeningPorts(pid: string, signal?: AbortSignal): Promise<string[]> {
+        // Socket inodes owned by the process appear as fd links to "socket:[inode]"
+        const inodes = new Set<string>();
+        let fds: string[];
+        try {
+            fds = await fs.readdir(`/proc/${pid}/fd`);
+        } catch {
+            return [];
+        }
+
+        await mapLimited(fds, PROC_READ_CONCURRENCY, async (fd) => {
+            try {
+                const match = (await fs.readlink(`/proc/${pid}/fd/${fd}`)).match(/^socket:\[(\d+)\]$/);
+                if (match) {
+                    inodes.add(match[1]);
+                }
+            } catch (error) {
+                if (!isSkippedProcError(error)) {
+                    throw error;
+                }
+                // fd closed while reading
+            }
+        }, signal);
+        throwIfCancelled(signal);
+
+        const ports: string[] = [];
+        for (const table of ['/proc/net/tcp', '/proc/net/tcp6']) {
+            let content: string;
+            try {
+                content = await fs.readFile(table, { encoding: 'utf-8', signal });
+            } catch {
+                throwIfCancelled(signal);
+                continue;
+            }
+
+            for (const line of content.split('\n').slice(1)) {
+                const fields = line.trim().split(/\s+/);
+                if (fields.length < 10) {
+                    continue;
+                }
+                const [, localAddress, , state] = fields;
+                const inode = fields[9];
+
+                // 0A is TCP_LISTEN
+                if (state !== '0A' || !inodes.has(inode)) {
+                    continue;
+                }
+
+                const [addressHex, portHex] = localAddress.split(':');
+                if (!isLoopbackHex(addressHex)) {
+                    continue;
+                }
+
+                const port = parseInt(portHex, 16).toString();
+                if (!ports.includes(port)) {
+                    ports.push(port);
+                }
+            }
+        }
+
+        return ports;
+    }
+}
+
+/**
+ * Check a /proc/net/tcp{,6} address (little-endian hex words) for loopback
+ */
+function isLoopbackHex(addressHex: string): boolean {
+    const hex = addressHex.toUpperCase();
+    // 127.0.0.1 in tcp, ::1 and ::ffff:127.0.0.1 in tcp6
+    return (
+        hex === '0100007F' ||
+        hex === '00000000000000000000000001000000' ||
+        hex === '0000000000000000FFFF00000100007F'
+    );
+}
+
+/**
+ * macOS: no procfs, so fall back to ps and lsof (invoked directly, no shell)
+ */
+export class DarwinDiscovery implements DiscoveryProvider {
+    readonly name = 'darwin-ps-lsof';
+
+    async findProcesses(signal?: AbortSignal): Promise<ProcessCandidate[]> {
+        const { stdout: output } = await execFileAsync('ps', ['-axww', '-o', 'pid=,command='], {
+            encoding: 'utf-8',
+            timeout: 5000,
+            maxBuffer: 16 * 1024 * 1024,
+            signal,
+        });
+
+        const candidates: ProcessCandidate[] = [];
+        for (const line of output.split('\n')) {
+            const match = line.trim().match(/^(\d+)\s+(.*)$/);
+            if (match && isLanguageServer(match[2])) {
+                candidates.push({ pid: match[1], commandLine: match[2] });
+            }
+        }
+        return candidates;
+    }
+
+    async findListeningPorts(pid: string, signal?: AbortSignal): Promise<string[]> {
+        let output: string;
+        try {
+            ({ stdout: output } = await execFileAsync(
+                'lsof',
+                ['-a', '-iTCP', '-sTCP:LISTEN', '-P', '-n', '-p', pid],
+                { encoding: 'utf-8', timeout: 5000, signal }
+            ));
+        } catch {
+            throwIfCancelled(signal);
+            return [];
+        }
+
+        const ports: string[] = [];
+        for (const line of output.split('\n')) {
+            const match = line.match(/(?:127\.0\.0\.1|\[::1\]|localhost):(\d+)\s/);
+            if (match && !ports.includes(match[1])) {
+                ports.push(match[1]);
+            }
+        }
+        return ports;
+    }
+}
+
+/**
+ * Windows: query processes through CIM and ports through netstat
+ */
+export class WindowsDiscovery implements DiscoveryProvider {
+    readonly name = 'windows-cim-netstat';
+
+    async findProcesses(signal?: AbortSignal): Promise<ProcessCandidate[]> {
+        const { stdout } = await execFileAsync(
+            'powershell.exe',
+            [
+                '-NoProfile',
+                '-NonInteractive',
+                '-Command',
+                "Get-CimInstance Win32_Process -Filter \"Name LIKE 'language_server%'\" | " +
+                'Select-Object ProcessId,CommandLine | ConvertTo-Json -Compress',
+            ],
+            { encoding: 'utf-8', timeout: 10000, windowsHide: true, signal }
+        );
+        const output = stdout.trim();
+
+        if (!output) {
+            return [];
+        }
+
+        const parsed = JSON.parse(output) as
+            | { ProcessId: number; CommandLine: string | null }
+            | { ProcessId: number; CommandLine: string | null }[];
+        const processes = Array.isArray(parsed) ? parsed : [parsed];
+
+        return processes
+            .filter((p) => p.CommandLine && isLanguageServer(p.CommandLine))
+            .map((p) => ({ pid: String(p.ProcessId), commandLine: p.CommandLine as string }));
+    }
+
+    async findListeningPorts(pid: string, signal?: AbortSignal): Promise<string[]> {
+        const { stdout: output } = await execFileAsync('netstat', ['-ano', '-p', 'TCP'], {
+            encoding: 'utf-8',
+            timeout: 5000,
+            windowsHide: true,
+            signal,
+        });
+
+        const ports: string[] = [];
+        for (const line of output.split('\n')) {
+            const fields = line.trim().split(/\s+/);
+            // Proto  Local Address  Foreign Address  State  PID
+            if (fields.length < 5 || fields[3] !== 'LISTENING' || fields[4] !== pid) {
+                continue;
+            }
+            const match = fields[1].match(/^127\.0\.0\.1:(\d+)$/);
+            if (match && !ports.includes(match[1])) {
+                ports.push(match[1]);
+            }
+        }
+        return ports;
+    }
+}
+
+/**
+ * Pick the discovery strategy for the current platform
+ */
+export function getDiscoveryProvider(platform: NodeJS.Platform = process.platform): DiscoveryProvider {
+    switch (platform) {
+        case 'linux':
+            return new LinuxProcDiscovery();
+        case 'win32':
+            return new WindowsDiscovery();
+        default:
+            return new DarwinDiscovery();
+    }
+}
+
+export interface ProbeResult {
+    port: string;
+    /** HTTP status, when the server answered at all */
+    status?: number;
+    /** Network error or "timeout" when it did not */
+    error?: string;
+    durationMs: number;
+}
+
+/**
+ * Send an empty GetUserStatus request to a port and report how it answered
+ */
+export function probePort(
+    target: { port: string; host?: string; rpcPath?: string },
+    token: string,
+    timeoutMs: number = 3000,
+    signal?: AbortSignal
+): Promise<ProbeResult> {
+    const started = Date.now();
+    const result = (outcome: { status?: number; error?: string }): ProbeResult => ({
+        port: target.port,
+        ...outcome,
+        durationMs: Date.now() - started,
+    });
+
+    return new Promise((resolve) => {
+        const body = '{}';
+        const req = http.request(
+            {
+                hostname: target.host ?? '127.0.0.1',
+                port: parseInt(target.port),
+                path: target.rpcPath ?? USER_STATUS_PATH,
+                method: 'POST',
+                headers: {
+                    'X-Codeium-Csrf-Token': token,
+                    'Connect-Protocol-Version': '1',
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body),
+                },
+                signal,
+            },
+            (res) => {
+                res.resume();
+                resolve(result({ status: res.statusCode }));
+            }
+        );
+
+        req.on('error', (error) => resolve(result({ error: error.message })));
+        req.setTimeout(timeoutMs, () => {
+            req.destroy();
+            resolve(result({ error: 'timeout' }));
+        });
+
+        req.write(body);
+        req.end();
+    });
+}
+
+/**
+ * Probe all ports in parallel and resolve with the first one answering 200.
+ * Outstanding probes are aborted as soon as a winner is found. Cancellation
+ * throws rather than looking like every port was rejected.
+ */
+export async function probePorts(
+    ports: string[],
+    token: string,
+    signal?: AbortSignal
+): Promise<string | null> {
+    throwIfCancelled(signal);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    const winner = await new Promise<string | null>((resolve) => {
+        let pending = ports.length;
+        if (pending === 0) {
+            resolve(null);
+            return;
+        }
+
+        for (const port of ports) {
+            probePort({ port }, token, 3000, controller.signal).then((probe) => {
+                pending--;
+                log.debug(
+                    `Probe port ${port}: ${probe.status ?? probe.error} (${probe.durationMs} ms)`
+                );
+                if (probe.status === 200) {
+                    controller.abort();
+                    resolve(port);
+                } else if (pending === 0) {
+                    resolve(null);
+                }
+            });
+        }
+    }).finally(() => {
+        signal?.removeEventListener('abort', onAbort);
+    });
+    throwIfCancelled(signal);
+    return winner;
+}
+
+/**
+ * Discover the Antigravity Language Server process.
+ * Each failed step throws its own QuotaError with diagnostic details.
+ */
+export async function discoverServer(
+    signal?: AbortSignal,
+    options: DiscoveryOptions = {}
+): Promise<ServerInfo> {
+    const provider = options.provider ?? getDiscoveryProvider();
+    const started = Date.now();
+    log.debug(`Discovery started using ${provider.name}`);
+    try {
+        let candidates: ProcessCandidate[];
+        try {
+            candidates = await provider.findProcesses(signal);
+        } catch (error) {
+            throwIfCancelled(signal);
+            throw new ProcessNotFoundError({
+                strategy: provider.name,
+                reason: error instanceof Error ? error.message : String(error),
+            });
+        }
+        throwIfCancelled(signal);
+        if (candidates.length === 0) {
+            throw new ProcessNotFoundError({ strategy: provider.name });
+        }
+        log.debug(
+            `Found ${candidates.length} language server process(es): ` +
+            candidates.map((c) => `${c.pid} [${extractWorkspaceId(c.commandLine) ?? 'no workspace'}]`).join(', ')
+        );
+
+        const { pid, commandLine } = await selectCandidate(candidates, options);
+        throwIfCancelled(signal);
+        log.debug(`Selected language server PID ${pid}`);
+
+        const token = extractCsrfToken(commandLine);
+        if (!token) {
+            throw new CsrfTokenMissingError({ pid });
+        }
+
+        log.debug(`CSRF token found: ${maskSecret(token)}`);
+
+        let ports: string[];
+        try {
+            ports = await provider.findListeningPorts(pid, signal);
+        } catch (error) {
+            throwIfCancelled(signal);
+            throw new NoListeningPortsError({
+                pid,
+                strategy: provider.name,
+                reason: error instanceof Error ? error.message : String(error),
+            });
+        }
+        throwIfCancelled(signal);
+        log.debug(`Listening ports for PID ${pid}: ${ports.join(', ') || 'none'}`);
+        if (ports.length === 0) {
+            throw new NoListeningPortsError({ pid, strategy: provider.name });
+        }
+
+        const port = await probePorts(ports, token, signal);
+        throwIfCancelled(signal);
+        if (!port) {
+            throw new PortsRejectedError({ pid, ports: ports.join(', ') });
+        }
+
+        log.info(`Discovered language server PID ${pid} on port ${port} in ${Date.now() - started} ms`);
+        return { pid, token, port };
+    } catch (error) {
+        if (signal?.aborted) {
+            throw new RequestCancelledError();
+        }
+        throw error instanceof QuotaError
+            ? error
+            : new UnexpectedError(error instanceof Error ? error.message : String(error), { strategy: provider.name });
+    }
+}
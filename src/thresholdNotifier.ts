@@ -0,0 +1,251 @@
+/**
+ * Low-Quota Threshold Notifications
+ * Warns when a model's remaining quota is below a configured threshold.
+ * Each threshold fires at most once per reset cycle, across restarts.
+ */
+
+import * as vscode from 'vscode';
+import { formatResetTime } from './metricsClient';
+import { MetricsResponse, ModelConfig } from './metricsModel';
+import { resolveHeroModels, setHeroModelIds } from './heroModels';
+import { filterModels } from './modelFilter';
+import { log } from './logger';
+
+export type ThresholdLevel = 'warning' | 'critical';
+
+export interface Thresholds {
+    /** Percent of quota remaining */
+    warning: number;
+    critical: number;
+}
+
+interface ThresholdState {
+    /** Keys of thresholds already announced: model|resetTime|level */
+    fired: string[];
+    /** Model ID to epoch ms until which notifications are muted */
+    snoozed: Record<string, number>;
+}
+
+const STATE_KEY = 'antigravityQuota.thresholdState';
+const SNOOZE_MS = 60 * 60 * 1000;
+
+/**
+ * Global thresholds overridden per model by label or model ID
+ */
+export function getThresholds(model: ModelConfig): Thresholds {
+    const config = vscode.workspace.getConfiguration('antigravityQuota');
+    const global: Thresholds = {
+        warning: config.get<number>('warningThreshold', 30),
+        critical: config.get<number>('criticalThreshold', 10),
+    };
+
+    const perModel = config.get<Record<string, Partial<Thresholds>>>('modelThresholds', {});
+    const override = perModel[model.label] ?? perModel[model.modelOrAlias.model];
+    return { ...global, ...override };
+}
+
+function parsePercent(value: string): number | undefined {
+    const percent = Number(value.trim());
+    return value.trim() !== '' && Number.isFinite(percent) && percent >= 0 && percent <= 100 ? percent : undefined;
+}
+
+/**
+ * Ask for a model's warning and critical thresholds and store them in
+ * modelThresholds under its model ID
+ */
+export async function promptModelThresholds(model: ModelConfig): Promise<void> {
+    const current = getThresholds(model);
+
+    const warning = await vscode.window.showInputBox({
+        title: `Thresholds for ${model.label}`,
+        prompt: 'Warn when remaining quota drops below this percentage',
+        value: String(current.warning),
+        validateInput: (value) => parsePercent(value) === undefined ? 'Enter a number from 0 to 100' : undefined,
+    });
+    if (warning === undefined) {
+        return;
+    }
+    const warningPercent = parsePercent(warning)!;
+
+    const critical = await vscode.window.showInputBox({
+        title: `Thresholds for ${model.label}`,
+        prompt: 'Show a critical alert below this percentage',
+        value: String(Math.min(current.critical, warningPercent)),
+        validateInput: (value) => {
+            const percent = parsePercent(value);
+            if (percent === undefined) {
+                return 'Enter a number from 0 to 100';
+            }
+            return percent > warningPercent ? `Must not exceed the warning threshold (${warningPercent}%)` : undefined;
+        },
+    });
+    if (critical === undefined) {
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('antigravityQuota');
+    const perModel = { ...config.get<Record<string, Partial<Thresholds>>>('modelThresholds', {}) };
+    // A label entry would shadow the ID entry in getThresholds
+    delete perModel[model.label];
+    perModel[model.modelOrAlias.model] = { warning: warningPercent, critical: parsePercent(critical)! };
+    await config.update('modelThresholds', perModel, vscode.ConfigurationTarget.Global);
+}
+
+export class ThresholdNotifier implements vscode.Disposable {
+    /** The last response checked; checked again when a snooze runs out */
+    private _lastData: MetricsResponse | undefined;
+    private readonly _snoozeTimers = new Set<NodeJS.Timeout>();
+
+    constructor(private readonly _context: vscode.ExtensionContext) { }
+
+    /**
+     * Notify about models below a threshold that has not been announced in
+     * their current reset cycle. Announcements are tracked in global state,
+     * so models that were already low at startup are announced as well, and
+     * snoozed ones once the snooze runs out.
+     */
+    public check(data: MetricsResponse): void {
+        this._lastData = data;
+        const config = vscode.workspace.getConfiguration('antigravityQuota');
+        if (!config.get<boolean>('lowQuotaNotifications', true)) {
+            return;
+        }
+
+        // Hidden models are not announced
+        const models = filterModels(data.userStatus.cascadeModelConfigData.clientModelConfigs);
+        const state = this._loadState();
+        const now = Date.now();
+
+        for (const model of models) {
+            if (!model.quotaInfo) {
+                continue;
+            }
+
+            const id = model.modelOrAlias.model;
+            // Restored data can describe a cycle that has already reset
+            const resetTime = Date.parse(model.quotaInfo.resetTime);
+            if ((state.snoozed[id] ?? 0) > now || resetTime <= now) {
+                continue;
+            }
+
+            const level = this._level(model.quotaInfo.remainingFraction * 100, getThresholds(model));
+            if (!level) {
+                continue;
+            }
+
+            const key = (l: ThresholdLevel) => `${id}|${model.quotaInfo!.resetTime}|${l}`;
+            if (state.fired.includes(key(level))) {
+                continue;
+            }
+            // A critical alert covers the warning for the same cycle
+            const covered: ThresholdLevel[] = level === 'critical' ? ['warning', 'critical'] : ['warning'];
+            state.fired.push(...covered.map(key).filter((k) => !state.fired.includes(k)));
+            void this._notify(model, level, models);
+        }
+
+        this._saveState(state);
+    }
+
+    /**
+     * The most severe threshold at or above the current percentage
+     */
+    private _level(current: number, thresholds: Thresholds): ThresholdLevel | null {
+        if (current <= thresholds.critical) {
+            return 'critical';
+        }
+        if (current <= thresholds.warning) {
+            return 'warning';
+        }
+        return null;
+    }
+
+    private async _notify(model: ModelConfig, level: ThresholdLevel, models: ModelConfig[]): Promise<void> {
+        const quota = model.quotaInfo!;
+        const percentage = Math.round(quota.remainingFraction * 100);
+        const threshold = getThresholds(model)[level];
+        const message =
+            `${model.label} quota is at ${percentage}% (below ${threshold}%). ` +
+            `Resets in ${formatResetTime(quota.resetTime)}.`;
+        log.info(`Threshold ${level} crossed: ${message}`);
+
+        const actions = ['Snooze', 'Switch hero model'];
+        const choice = level === 'critical'
+            ? await vscode.window.showErrorMessage(message, ...actions)
+            : await vscode.window.showWarningMessage(message, ...actions);
+
+        if (choice === 'Snooze') {
+            const state = this._loadState();
+            state.snoozed[model.modelOrAlias.model] = Date.now() + SNOOZE_MS;
+            this._saveState(state);
+            this._recheckAfterSnooze();
+        } else if (choice === 'Switch hero model') {
+            await this._switchHeroModel(model, models);
+        }
+    }
+
+    /**
+     * Replace the depleted model's hero slot (or the first slot) with a
+     * model chosen from those with the most quota left
+     */
+    private async _switchHeroModel(depleted: ModelConfig, models: ModelConfig[]): Promise<void> {
+        const candidates = models
+            .filter(m => m.quotaInfo && m !== depleted)
+            .sort((a, b) => b.quotaInfo!.remainingFraction - a.quotaInfo!.remainingFraction);
+
+        const picked = await vscode.window.showQuickPick(
+            candidates.map(m => ({
+                label: m.label,
+                description: `${Math.round(m.quotaInfo!.remainingFraction * 100)}% remaining`,
+                model: m,
+            })),
+            { placeHolder: `Replace ${depleted.label} in the hero gauges with...` }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const ids = resolveHeroModels(models).map(m => m.modelOrAlias.model);
+        const slot = Math.max(0, ids.indexOf(depleted.modelOrAlias.model));
+        ids[slot] = picked.model.modelOrAlias.model;
+        await setHeroModelIds(ids);
+    }
+
+    /**
+     * State survives restarts; entries for past reset cycles are dropped
+     */
+    private _loadState(): ThresholdState {
+        const stored = this._context.globalState.get<ThresholdState>(STATE_KEY);
+        const now = Date.now();
+        return {
+            fired: (stored?.fired ?? []).filter(key => {
+                const resetTime = Date.parse(key.split('|')[1]);
+                return isNaN(resetTime) || resetTime > now;
+            }),
+            snoozed: Object.fromEntries(
+                Object.entries(stored?.snoozed ?? {}).filter(([, until]) => until > now)
+            ),
+        };
+    }
+
+    private _saveState(state: ThresholdState): void {
+        void this._context.globalState.update(STATE_KEY, state);
+    }
+
+    /**
+     * Deliver what the snooze held back without waiting for the next refresh
+     */
+    private _recheckAfterSnooze(): void {
+        const timer = setTimeout(() => {
+            this._snoozeTimers.delete(timer);
+            if (this._lastData) {
+                this.check(this._lastData);
+            }
+        }, SNOOZE_MS);
+        this._snoozeTimers.add(timer);
+    }
+
+    public dispose(): void {
+        this._snoozeTimers.forEach((timer) => clearTimeout(timer));
+        this._snoozeTimers.clear();
+    }
+}
@@ -0,0 +1,406 @@
+/**
+ * Quota View Model
+ * Everything the sidebar and the details panel display, derived once from a
+ * response so hero selection, ordering and formatting match on both surfaces
+ */
+
+import * as vscode from 'vscode';
+import { formatResetTime, formatResetTimeAbsolute, getQuotaColor } from './metricsClient';
+import { MetricsResponse, ModelConfig, PLAN_FEATURES, PLAN_LIMITS, PlanFeature, PlanLimit } from './metricsModel';
+import { QuotaError } from './errors';
+import { resolveHeroModels } from './heroModels';
+import { QuotaSnapshot } from './historyStore';
+import { Forecast, forecastModel } from './forecast';
+import { CreditKind, creditTrend, modelTrend, TREND_RANGES, TrendPoint, TrendRange } from './charts';
+import { getProvider, groupModels, ModelGroup, ModelSortMode } from './modelSort';
+import { getModelFilter, isModelVisible } from './modelFilter';
+
+export type QuotaStatus = 'healthy' | 'warning' | 'critical';
+
+export type Trends = Record<TrendRange, TrendPoint[]>;
+
+export interface ModelViewModel {
+    id: string;
+    label: string;
+    /** Compact name for the hero gauges */
+    shortName: string;
+    /** Claude, Gemini, GPT or Other */
+    provider: string;
+    supportsImages: boolean;
+    percentage: number;
+    status: QuotaStatus;
+    /** Reset time in the user's preferred format */
+    resetText: string;
+    forecast?: Forecast;
+    trends?: Trends;
+}
+
+export interface CreditViewModel {
+    kind: CreditKind;
+    label: string;
+    currentText: string;
+    totalText: string;
+    percentage: number;
+    trends?: Trends;
+}
+
+export interface UserViewModel {
+    name: string;
+    email: string;
+    /** Avatar letter */
+    initial: string;
+    tierName: string;
+}
+
+export interface QuotaViewModel {
+    user: UserViewModel;
+    heroes: ModelViewModel[];
+    /** Every visible model that reports quota, in display order */
+    models: ModelViewModel[];
+    /** Models left out by the hidden-models and only-recommended settings */
+    hiddenCount: number;
+    /** The same models split by the chosen sort mode */
+    modelGroups: ModelGroup<ModelViewModel>[];
+    sortMode: ModelSortMode;
+    credits: CreditViewModel[];
+    fetchedAt: Date;
+    /** The data is older than the latest refresh attempt */
+    stale: boolean;
+    error?: QuotaError;
+}
+
+export interface ViewModelOptions {
+    snapshots: readonly QuotaSnapshot[];
+    fetchedAt: Date;
+    stale: boolean;
+    error?: QuotaError;
+    /** Attach sparkline data for every trend range */
+    includeTrends?: boolean;
+    sortMode?: ModelSortMode;
+}
+
+const SHORT_MODEL_NAMES: Record<string, string> = {
+    'Claude Opus 4.5 (Thinking)': 'Claude Opus',
+    'Claude Sonnet 4.5': 'Sonnet',
+    'Claude Sonnet 4.5 (Thinking)': 'Sonnet Think',
+    'Gemini 3 Pro (High)': 'Gemini Pro',
+    'Gemini 3 Pro (Low)': 'Gemini Pro',
+    'Gemini 3 Flash': 'Gemini Flash',
+    'GPT-OSS 120B (Medium)': 'GPT-OSS',
+};
+
+export function getShortModelName(label: string): string {
+    return SHORT_MODEL_NAMES[label] || label.split(' ').slice(0, 2).join(' ');
+}
+
+export function formatK(num: number): string {
+    if (num >= 1000) {
+        return (num / 1000).toFixed(num % 1000 === 0 ? 0 : 1) + 'K';
+    }
+    return num.toString();
+}
+
+export function formatResetTimeByPreference(resetTime: string): string {
+    const format = vscode.workspace
+        .getConfiguration('antigravityQuota')
+        .get<'relative' | 'absolute'>('resetTimeFormat', 'relative');
+    return format === 'absolute'
+        ? formatResetTimeAbsolute(resetTime)
+        : formatResetTime(resetTime);
+}
+
+export function formatClockTime(date: Date): string {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function formatTimeAgo(date: Date): string {
+    const diffSecs = Math.floor((Date.now() - date.getTime()) / 1000);
+    const diffMins = Math.floor(diffSecs / 60);
+    const diffHours = Math.floor(diffMins / 60);
+
+    if (diffSecs < 10) {
+        return 'Just now';
+    } else if (diffSecs < 60) {
+        return `${diffSecs}s ago`;
+    } else if (diffMins < 60) {
+        return `${diffMins}m ago`;
+    } else {
+        return `${diffHours}h ${diffMins % 60}m ago`;
+    }
+}
+
+export function getQuotaStatus(remainingFraction: number): QuotaStatus {
+    const color = getQuotaColor(remainingFraction);
+    return color === 'green' ? 'healthy' : color === 'yellow' ? 'warning' : 'critical';
+}
+
+function buildTrends(trend: (since: number) => TrendPoint[]): Trends {
+    const now = Date.now();
+    const trends = {} as Trends;
+    for (const range of Object.keys(TREND_RANGES) as TrendRange[]) {
+        trends[range] = trend(now - TREND_RANGES[range]);
+    }
+    return trends;
+}
+
+function buildModel(model: ModelConfig, options: ViewModelOptions): ModelViewModel {
+    const quota = model.quotaInfo!;
+    const id = model.modelOrAlias.model;
+    return {
+        id,
+        label: model.label,
+        shortName: getShortModelName(model.label),
+        provider: getProvider(model),
+        supportsImages: model.supportsImages,
+        percentage: Math.round(quota.remainingFraction * 100),
+        status: getQuotaStatus(quota.remainingFraction),
+        resetText: formatResetTimeByPreference(quota.resetTime),
+        forecast: forecastModel(options.snapshots, model) ?? undefined,
+        trends: options.includeTrends
+            ? buildTrends((since) => modelTrend(options.snapshots, id, since))
+            : undefined,
+    };
+}
+
+function buildCredit(
+    kind: CreditKind,
+    label: string,
+    current: number,
+    total: number,
+    options: ViewModelOptions
+): CreditViewModel {
+    return {
+        kind,
+        label,
+        currentText: formatK(current),
+        totalText: formatK(total),
+        percentage: total > 0 ? Math.min(100, Math.max(0, Math.round((current / total) * 100))) : 0,
+        trends: options.includeTrends
+            ? buildTrends((since) => creditTrend(options.snapshots, kind, total, since))
+            : undefined,
+    };
+}
+
+export function buildViewModel(data: MetricsResponse, options: ViewModelOptions): QuotaViewModel {
+    const userStatus = data.userStatus;
+    const planStatus = userStatus.planStatus;
+    const models = userStatus.cascadeModelConfigData.clientModelConfigs;
+
+    const sortMode = options.sortMode ?? 'recommended';
+
+    const modelViews = new Map<ModelConfig, ModelViewModel>();
+    for (const model of models) {
+        if (model.quotaInfo) {
+            modelViews.set(model, buildModel(model, options));
+        }
+    }
+    // Heroes are chosen explicitly, so hiding only applies to the lists
+    const filter = getModelFilter();
+    const visible = [...modelViews.keys()].filter((m) => isModelVisible(m, filter));
+    const modelGroups = groupModels(
+        visible,
+        userStatus.cascadeModelConfigData.clientModelSorts,
+        sortMode
+    ).map((group) => ({ name: group.name, models: group.models.map((m) => modelViews.get(m)!) }));
+
+    return {
+        user: {
+            name: userStatus.name,
+            email: userStatus.email,
+            initial: (userStatus.name.charAt(0) || '?').toUpperCase(),
+            tierName: userStatus.userTier.name,
+        },
+        heroes: resolveHeroModels(models).map((m) => modelViews.get(m)!),
+        models: modelGroups.flatMap((group) => group.models),
+        hiddenCount: modelViews.size - visible.length,
+        modelGroups,
+        sortMode,
+        credits: [
+            buildCredit('prompt', 'Prompt', planStatus.availablePromptCredits, planStatus.planInfo.monthlyPromptCredits, options),
+            buildCredit('flow', 'Flow', planStatus.availableFlowCredits, planStatus.planInfo.monthlyFlowCredits, options),
+        ],
+        fetchedAt: options.fetchedAt,
+        stale: options.stale || options.error !== undefined,
+        error: options.error,
+    };
+}
+
+export interface CapabilityRowViewModel {
+    id: string;
+    label: string;
+    isDefault: boolean;
+    isRecommended: boolean;
+    /** Badge text such as "New" */
+    tag?: string;
+    /** Accepted MIME types by category name */
+    mimeTypes: Record<string, string[]>;
+    tiers: string[];
+    /** Undefined when the plan does not say which tier it is */
+    onYourTier?: boolean;
+}
+
+export interface CapabilityMatrixViewModel {
+    /** Column names, only for categories some model accepts */
+    categories: string[];
+    rows: CapabilityRowViewModel[];
+    defaultModel?: string;
+    yourTier?: string;
+}
+
+/** First match wins, so code types are not counted as plain text */
+const MIME_CATEGORIES: [string, (type: string) => boolean][] = [
+    ['Images', (type) => type.startsWith('image/')],
+    ['PDF', (type) => type === 'application/pdf'],
+    ['Code', (type) => /python|javascript|typescript|ipynb|css|html/.test(type)],
+    ['Audio', (type) => type.startsWith('audio/') || type.startsWith('video/audio/')],
+    ['Video', (type) => type.startsWith('video/')],
+    ['Text & Data', (type) => type.startsWith('text/') || type.startsWith('application/')],
+];
+
+function getMimeCategory(type: string): string {
+    return MIME_CATEGORIES.find(([, matches]) => matches(type))?.[0] ?? 'Other';
+}
+
+/**
+ * TEAMS_TIER_ENTERPRISE_SAAS -> Enterprise Saas
+ */
+export function formatTierName(tier: string): string {
+    return tier
+        .replace(/^TEAMS_TIER_/, '')
+        .split('_')
+        .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+        .join(' ');
+}
+
+/**
+ * What each visible model accepts and who may use it
+ */
+export function buildCapabilityMatrix(data: MetricsResponse): CapabilityMatrixViewModel {
+    const cascade = data.userStatus.cascadeModelConfigData;
+    const defaultId = cascade.defaultOverrideModelConfig?.modelOrAlias.model;
+    const yourTier = data.userStatus.planStatus.planInfo.teamsTier;
+    const filter = getModelFilter();
+
+    const rows = cascade.clientModelConfigs
+        .filter((m) => isModelVisible(m, filter))
+        .map((model) => {
+            const mimeTypes: Record<string, string[]> = {};
+            for (const type of [...model.supportedMimeTypes].sort()) {
+                (mimeTypes[getMimeCategory(type)] ??= []).push(type);
+            }
+            return {
+                id: model.modelOrAlias.model,
+                label: model.label,
+                isDefault: model.modelOrAlias.model === defaultId,
+                isRecommended: model.isRecommended,
+                tag: model.tagTitle,
+                mimeTypes,
+                tiers: model.allowedTiers.map(formatTierName),
+                onYourTier: yourTier && model.allowedTiers.length > 0
+                    ? model.allowedTiers.includes(yourTier)
+                    : undefined,
+            };
+        });
+
+    const used = new Set(rows.flatMap((row) => Object.keys(row.mimeTypes)));
+    return {
+        categories: [...MIME_CATEGORIES.map(([name]) => name), 'Other'].filter((name) => used.has(name)),
+        rows,
+        defaultModel: cascade.clientModelConfigs.find((m) => m.modelOrAlias.model === defaultId)?.label,
+        yourTier: yourTier ? formatTierName(yourTier) : undefined,
+    };
+}
+
+export interface EntitlementViewModel {
+    label: string;
+    value: string;
+    enabled?: boolean;
+}
+
+export interface PlanViewModel {
+    planName: string;
+    tierName: string;
+    tierDescription: string;
+    limits: EntitlementViewModel[];
+    features: EntitlementViewModel[];
+    teamDefaults: EntitlementViewModel[];
+    /** Shown as an action when the server offers an upgrade */
+    upgrade?: { text: string };
+}
+
+const PLAN_LIMIT_LABELS: Record<PlanLimit, string> = {
+    maxNumChatInputTokens: 'Chat input tokens',
+    maxCustomChatInstructionCharacters: 'Custom instruction characters',
+    maxNumPremiumChatMessages: 'Premium chat messages',
+    maxNumPinnedContextItems: 'Pinned context items',
+    maxLocalIndexSize: 'Local index size',
+};
+
+const PLAN_FEATURE_LABELS: Record<PlanFeature, string> = {
+    cascadeWebSearchEnabled: 'Web search',
+    browserEnabled: 'Browser',
+    knowledgeBaseEnabled: 'Knowledge base',
+    canBuyMoreCredits: 'Buy more credits',
+    cascadeCanAutoRunCommands: 'Auto-run commands',
+    canAllowCascadeInBackground: 'Background agent',
+    canGenerateCommitMessages: 'Commit message generation',
+    hasAutocompleteFastMode: 'Fast autocomplete',
+    hasTabToJump: 'Tab to jump',
+    allowStickyPremiumModels: 'Sticky premium models',
+    allowPremiumCommandModels: 'Premium command models',
+    canCustomizeAppIcon: 'Custom app icon',
+};
+
+const TEAM_CONFIG_LABELS: Record<string, string> = {
+    allowMcpServers: 'MCP servers',
+    allowAutoRunCommands: 'Auto-run commands',
+    allowBrowserExperimentalFeatures: 'Experimental browser features',
+};
+
+/**
+ * allowSomeNewThing -> Some new thing, for team settings without a label
+ */
+function humanizeKey(key: string): string {
+    const words = key.replace(/^allow/, '').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatLimit(value: number): string {
+    return value < 0 ? 'Unlimited' : value.toLocaleString();
+}
+
+function toggle(label: string, enabled: boolean): EntitlementViewModel {
+    return { label, value: enabled ? 'Included' : 'Not included', enabled };
+}
+
+/**
+ * Plan limits and feature entitlements in display order
+ */
+export function buildPlanViewModel(data: MetricsResponse): PlanViewModel {
+    const planInfo = data.userStatus.planStatus.planInfo;
+    const tier = data.userStatus.userTier;
+
+    const limits: EntitlementViewModel[] = [];
+    for (const key of PLAN_LIMITS) {
+        const value = planInfo[key];
+        if (value !== undefined) {
+            limits.push({ label: PLAN_LIMIT_LABELS[key], value: formatLimit(value) });
+        }
+    }
+    if (planInfo.monthlyFlexCreditPurchaseAmount !== undefined) {
+        limits.push({ label: 'Flex credits per purchase', value: formatLimit(planInfo.monthlyFlexCreditPurchaseAmount) });
+    }
+
+    return {
+        planName: planInfo.planName,
+        tierName: tier.name,
+        tierDescription: tier.description,
+        limits,
+        features: PLAN_FEATURES.map((key) => toggle(PLAN_FEATURE_LABELS[key], planInfo[key])),
+        teamDefaults: Object.entries(planInfo.defaultTeamConfig)
+            .map(([key, enabled]) => toggle(TEAM_CONFIG_LABELS[key] ?? humanizeKey(key), enabled)),
+        upgrade: tier.upgradeSubscriptionUri
+            ? { text: tier.upgradeSubscriptionText ?? 'Upgrade your plan for higher limits.' }
+            : undefined,
+    };
+}
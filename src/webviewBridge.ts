@@ -0,0 +1,61 @@
+/**
+ * Webview Messaging
+ * Messages exchanged between the extension and the sidebar and panel
+ * webviews. The extension sends rendered sections, the webview patches the
+ * ones that changed and reports clicks back.
+ */
+
+import * as vscode from 'vscode';
+
+export interface WebviewSection {
+    /** Stable key the webview uses to find the section again */
+    id: string;
+    html: string;
+}
+
+/** 'message' views (loading, welcome, errors) are centered; 'data' views are the dashboard */
+export type WebviewView = 'data' | 'message';
+
+export interface RenderMessage {
+    type: 'render';
+    view: WebviewView;
+    sections: WebviewSection[];
+    /** Data for the history chart, panel only */
+    chart?: unknown;
+}
+
+export interface LoadingMessage {
+    type: 'loading';
+    value: boolean;
+}
+
+export type ExtensionMessage = RenderMessage | LoadingMessage;
+
+export interface WebviewMessageHandlers {
+    /** The webview (re)loaded its shell and needs content */
+    onReady(): void;
+}
+
+/**
+ * Dispatch a message posted by a webview. Only this extension's commands
+ * may be run from inside a webview.
+ */
+export function handleWebviewMessage(message: unknown, handlers: WebviewMessageHandlers): void {
+    const msg = message as { type?: unknown; command?: unknown; modelId?: unknown } | undefined;
+    switch (msg?.type) {
+        case 'ready':
+            handlers.onReady();
+            break;
+        case 'runCommand':
+            if (typeof msg.command === 'string' && msg.command.startsWith('antigravity-quota.')) {
+                void vscode.commands.executeCommand(msg.command);
+            }
+            break;
+        case 'pin':
+            // Same path as the "Pin as Hero" context menu item
+            if (typeof msg.modelId === 'string') {
+                void vscode.commands.executeCommand('antigravity-quota.pinHeroModel', { modelId: msg.modelId });
+            }
+            break;
+    }
+}